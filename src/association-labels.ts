@@ -0,0 +1,123 @@
+/**
+ * Association labels in both directions, paired with their inverse type IDs and limits
+ */
+
+import { AssociationDefinition, AssociationLabel, AssociationDefinitionConfiguration } from './types';
+
+/**
+ * A : B - "many-to-one" means many A records can share one B record, but each A has at most one B
+ */
+export type AssociationCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+/**
+ * One association type with its counterpart in the opposite direction
+ * (e.g. "Manager" A → B paired with "Employee" B → A)
+ */
+export interface AssociationLabelPair {
+  category: string;
+  /** Label for A → B (null when unlabeled) */
+  label: string | null;
+  /** Type ID to use when associating A → B; null when only B → A is defined */
+  typeId: number | null;
+  /** Label for B → A */
+  inverseLabel: string | null;
+  /** Type ID to use when associating B → A; null when only A → B is defined */
+  inverseTypeId: number | null;
+  /** Most B records one A record can be associated with; null when unlimited, absent when unknown */
+  maxToObjectIds?: number | null;
+  /** Most A records one B record can be associated with; null when unlimited, absent when unknown */
+  inverseMaxToObjectIds?: number | null;
+  /** Known only when the limits of both directions could be read */
+  cardinality?: AssociationCardinality | null;
+}
+
+/**
+ * Label entries for association definitions from the types endpoint
+ */
+export function labelsFromDefinitions(types: AssociationDefinition[]): AssociationLabel[] {
+  return types.map((type) => ({ category: type.associationCategory, typeId: type.associationTypeId, label: type.name || null }));
+}
+
+/**
+ * Pair each A → B type with its B → A inverse
+ * A type with the same category and label (case-insensitive) is the inverse; otherwise a
+ * differently labeled type of the same category with an adjacent type ID is (paired labels
+ * are created together and get consecutive IDs). Unmatched types get a null inverse.
+ */
+export function pairAssociationLabels(forward: AssociationLabel[], reverse: AssociationLabel[]): AssociationLabelPair[] {
+  const unpaired = [...reverse].sort((a, b) => a.typeId - b.typeId);
+  const byId = (a: AssociationLabel, b: AssociationLabel) => a.typeId - b.typeId;
+  const sameLabel = (a: AssociationLabel, b: AssociationLabel) => (a.label || '').toLowerCase() === (b.label || '').toLowerCase();
+  const distance = (a: AssociationLabel, b: AssociationLabel) => Math.abs(a.typeId - b.typeId);
+
+  const take = (type: AssociationLabel, match: (candidate: AssociationLabel) => boolean): AssociationLabel | undefined => {
+    const candidates = unpaired.filter((candidate) => candidate.category === type.category && match(candidate));
+    const inverse = candidates.sort((a, b) => distance(type, a) - distance(type, b))[0];
+    if (inverse) {
+      unpaired.splice(unpaired.indexOf(inverse), 1);
+    }
+    return inverse;
+  };
+
+  const sorted = [...forward].sort(byId);
+  const inverses = new Map<AssociationLabel, AssociationLabel | undefined>();
+  // Same-label matches first, so an adjacent ID never steals a symmetric label's inverse
+  sorted.forEach((type) => inverses.set(type, take(type, (candidate) => sameLabel(type, candidate))));
+  sorted
+    .filter((type) => !inverses.get(type) && type.label)
+    .forEach((type) => inverses.set(type, take(type, (candidate) => !!candidate.label && distance(type, candidate) === 1)));
+
+  const pairs: AssociationLabelPair[] = sorted.map((type) => {
+    const inverse = inverses.get(type);
+    return {
+      category: type.category,
+      label: type.label,
+      typeId: type.typeId,
+      inverseLabel: inverse ? inverse.label : null,
+      inverseTypeId: inverse ? inverse.typeId : null,
+    };
+  });
+  unpaired.forEach((type) => {
+    pairs.push({ category: type.category, label: null, typeId: null, inverseLabel: type.label, inverseTypeId: type.typeId });
+  });
+  return pairs;
+}
+
+/**
+ * Fill in per-type limits and cardinality from the definition configurations of each direction
+ * Pass null for a direction whose configurations could not be read.
+ */
+export function applyAssociationLimits(
+  pairs: AssociationLabelPair[],
+  forward: AssociationDefinitionConfiguration[] | null,
+  reverse: AssociationDefinitionConfiguration[] | null
+): AssociationLabelPair[] {
+  const limit = (configs: AssociationDefinitionConfiguration[], typeId: number | null): number | null => {
+    const config = typeId === null ? undefined : configs.find((c) => c.typeId === typeId);
+    return config?.userEnforcedMaxToObjectIds ?? config?.maxToObjectIds ?? null;
+  };
+
+  return pairs.map((pair) => {
+    const result: AssociationLabelPair = { ...pair };
+    if (forward) {
+      result.maxToObjectIds = limit(forward, pair.typeId);
+    }
+    if (reverse) {
+      result.inverseMaxToObjectIds = limit(reverse, pair.inverseTypeId);
+    }
+    result.cardinality = forward && reverse ? cardinality(result.maxToObjectIds ?? null, result.inverseMaxToObjectIds ?? null) : null;
+    return result;
+  });
+}
+
+/**
+ * Cardinality from the limits of both directions (null = unlimited)
+ */
+function cardinality(maxToObjectIds: number | null, inverseMaxToObjectIds: number | null): AssociationCardinality {
+  const toOne = maxToObjectIds === 1;
+  const fromOne = inverseMaxToObjectIds === 1;
+  if (toOne && fromOne) return 'one-to-one';
+  if (toOne) return 'many-to-one';
+  if (fromOne) return 'one-to-many';
+  return 'many-to-many';
+}
@@ -0,0 +1,115 @@
+/**
+ * Multi-hop association paths between two object types
+ */
+
+import { HubSpotClient } from './hubspot-client';
+import { AssociationDefinition } from './types';
+import { HubSpotApiError } from './errors';
+import { mapWithConcurrency } from './utils';
+
+/**
+ * Association types keyed by from object, then to object
+ */
+export type AssociationEdges = Map<string, Map<string, AssociationDefinition[]>>;
+
+export interface AssociationHop {
+  from: string;
+  to: string;
+  types: AssociationDefinition[];
+  /** Read call listing the associated records for this hop */
+  apiCall: string;
+}
+
+export interface AssociationPath {
+  objects: string[];
+  hops: AssociationHop[];
+  /** Whether no path with fewer hops exists */
+  shortest: boolean;
+}
+
+export interface PathSearchOptions {
+  /** Longest path to consider, in hops (default 3) */
+  maxDepth?: number;
+  /** Number of paths to return, shortest first (default 5) */
+  limit?: number;
+}
+
+/**
+ * Fetch association types for every ordered pair of objects through the v4 types endpoint
+ * Pairs the token cannot read are left out rather than failing the whole graph.
+ */
+export async function collectAssociationEdges(
+  client: HubSpotClient,
+  objects: string[],
+  concurrency: number = 4
+): Promise<AssociationEdges> {
+  const pairs: Array<[string, string]> = [];
+  objects.forEach((from) => objects.forEach((to) => from !== to && pairs.push([from, to])));
+
+  const results = await mapWithConcurrency(pairs, concurrency, async ([from, to]) => {
+    try {
+      const result = await client.verifyAssociationPath(from, to);
+      return { from, to, types: result.associationTypes?.results || [] };
+    } catch (error: any) {
+      if (error instanceof HubSpotApiError && error.status !== 429 && error.status < 500) {
+        return { from, to, types: [] };
+      }
+      throw error;
+    }
+  });
+
+  const edges: AssociationEdges = new Map();
+  results.forEach(({ from, to, types }) => {
+    if (types.length === 0) {
+      return;
+    }
+    if (!edges.has(from)) {
+      edges.set(from, new Map());
+    }
+    edges.get(from)!.set(to, types);
+  });
+  return edges;
+}
+
+/**
+ * Simple paths from one object to another, fewest hops first
+ * Searches breadth-first, one path length at a time, and stops at the first length
+ * that brings the total to `limit` instead of enumerating every longer path.
+ */
+export function findAssociationPaths(
+  edges: AssociationEdges,
+  from: string,
+  to: string,
+  options: PathSearchOptions = {}
+): AssociationPath[] {
+  const maxDepth = options.maxDepth ?? 3;
+  const limit = options.limit ?? 5;
+  const found: string[][] = [];
+
+  let frontier: string[][] = from !== to ? [[from]] : [];
+  for (let depth = 1; depth <= maxDepth && frontier.length > 0 && found.length < limit; depth++) {
+    const next: string[][] = [];
+    const arrived: string[][] = [];
+    frontier.forEach((trail) => {
+      const current = trail[trail.length - 1];
+      [...(edges.get(current)?.keys() || [])]
+        .filter((object) => !trail.includes(object))
+        .forEach((object) => (object === to ? arrived : next).push([...trail, object]));
+    });
+    found.push(...arrived.sort((a, b) => a.join('|').localeCompare(b.join('|'))));
+    frontier = next;
+  }
+
+  const fewest = found.length > 0 ? found[0].length : 0;
+
+  return found.slice(0, limit).map((objects) => ({
+    objects,
+    hops: objects.slice(1).map((next, i) => ({
+      from: objects[i],
+      to: next,
+      types: edges.get(objects[i])!.get(next)!,
+      apiCall: `GET /crm/v4/objects/${objects[i]}/{id}/associations/${next}`,
+    })),
+    shortest: objects.length === fewest,
+  }));
+}
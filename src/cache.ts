@@ -0,0 +1,167 @@
+/**
+ * On-disk cache for schemas, association types and object-existence probes
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createHash } from 'crypto';
+
+export type CacheMode = 'default' | 'refresh' | 'offline';
+
+export interface SchemaCacheOptions {
+  /** Root cache directory (default ~/.cache/hubspot-schema-inspector) */
+  dir?: string;
+  /** Time-to-live for cached entries in milliseconds (default 1 hour) */
+  ttlMs?: number;
+  /**
+   * default - serve fresh entries, fetch and store the rest
+   * refresh - always fetch, then store
+   * offline - serve entries of any age, never fetch
+   */
+  mode?: CacheMode;
+}
+
+interface CacheEntry<T> {
+  fetchedAt: string;
+  data: T;
+}
+
+const DEFAULT_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Raised in offline mode when the requested data was never cached
+ */
+export class CacheMissError extends Error {
+  constructor(readonly key: string) {
+    super(`No cached data for "${key}" - run the command once without --offline to populate the cache`);
+    this.name = 'CacheMissError';
+  }
+}
+
+/**
+ * Default cache root, honoring XDG_CACHE_HOME
+ */
+export function defaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache');
+  return path.join(base, 'hubspot-schema-inspector');
+}
+
+/**
+ * Derive a stable cache namespace for a portal from its access token
+ * The token itself is never written to disk.
+ */
+export function cacheNamespaceForToken(accessToken: string): string {
+  return `token-${createHash('sha256').update(accessToken).digest('hex').slice(0, 16)}`;
+}
+
+/**
+ * Per-portal file cache
+ * Each entry is stored as its own JSON file under <dir>/<namespace>/.
+ */
+export class SchemaCache {
+  readonly mode: CacheMode;
+  private dir: string;
+  private ttlMs: number;
+  private oldestServed: Date | null = null;
+
+  constructor(namespace: string, options: SchemaCacheOptions = {}) {
+    this.dir = path.join(options.dir || defaultCacheDir(), namespace);
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS;
+    this.mode = options.mode ?? 'default';
+  }
+
+  /**
+   * Return a cached value or fetch and store it, according to the cache mode
+   */
+  async getOrFetch<T>(key: string, fetch: () => Promise<T>, shouldStore?: (data: T) => boolean): Promise<T> {
+    if (this.mode !== 'refresh') {
+      const entry = this.read<T>(key);
+      if (entry && (this.mode === 'offline' || !this.isExpired(entry))) {
+        this.noteServed(entry);
+        return entry.data;
+      }
+    }
+
+    if (this.mode === 'offline') {
+      throw new CacheMissError(key);
+    }
+
+    const data = await fetch();
+    if (!shouldStore || shouldStore(data)) {
+      this.write(key, data);
+    }
+    return data;
+  }
+
+  /**
+   * Read a cached value regardless of age, or null if absent
+   */
+  peek<T>(key: string): T | null {
+    const entry = this.read<T>(key);
+    if (!entry) {
+      return null;
+    }
+    this.noteServed(entry);
+    return entry.data;
+  }
+
+  /**
+   * Fetch time of the oldest cached entry served so far, or null if everything was live
+   */
+  oldestServedAt(): Date | null {
+    return this.oldestServed;
+  }
+
+  private isExpired(entry: CacheEntry<unknown>): boolean {
+    return Date.now() - new Date(entry.fetchedAt).getTime() > this.ttlMs;
+  }
+
+  private noteServed(entry: CacheEntry<unknown>): void {
+    const fetchedAt = new Date(entry.fetchedAt);
+    if (!this.oldestServed || fetchedAt < this.oldestServed) {
+      this.oldestServed = fetchedAt;
+    }
+  }
+
+  private read<T>(key: string): CacheEntry<T> | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.fileFor(key), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  private write<T>(key: string, data: T): void {
+    const entry: CacheEntry<T> = { fetchedAt: new Date().toISOString(), data };
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(this.fileFor(key), JSON.stringify(entry));
+    } catch {
+      // A read-only or full disk should never break a command
+    }
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, `${key.replace(/[^a-zA-Z0-9_.-]/g, '_')}.json`);
+  }
+}
+
+/**
+ * Describe the age of cached data, e.g. "3h 12m ago"
+ */
+export function formatAge(since: Date, now: Date = new Date()): string {
+  const seconds = Math.max(0, Math.floor((now.getTime() - since.getTime()) / 1000));
+  if (seconds < 60) {
+    return `${seconds}s ago`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h ${minutes % 60}m ago`;
+  }
+  return `${Math.floor(hours / 24)}d ${hours % 24}h ago`;
+}
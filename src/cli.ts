@@ -1,6 +1,6 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import {
   listSchemasCommand,
@@ -9,22 +9,99 @@ import {
   verifyAssociationsCommand,
   showErrorsCommand,
   listCustomObjectsCommand,
+  listProfilesCommand,
+  addProfileCommand,
+  removeProfileCommand,
+  currentProfileCommand,
+  inspectPropertyCommand,
+  findPropertyCommand,
+  listPropertyGroupsCommand,
+  lintCommand,
+  checkCommand,
+  planCommand,
+  compareCommand,
+  docsCommand,
+  graphCommand,
+  matrixCommand,
+  pathCommand,
+  recordsCommand,
+  diagnoseCommand,
+  snapshotCommand,
+  diffCommand,
+  codegenCommand,
 } from './commands';
+import { OUTPUT_FORMATS, OutputFormat } from './config';
+import { isStructuredFormat, configureColors } from './output';
 
-// Exit codes as per specification
-export const EXIT_CODES = {
-  SUCCESS: 0,
-  ASSOCIATION_INVALID: 1,
-  OBJECT_NOT_FOUND: 2,
-  API_ERROR: 3,
-};
+export { EXIT_CODES } from './commands';
+
+/**
+ * Parse a numeric option value
+ */
+function parseNumber(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Not a valid number.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse a numeric option value that must be greater than 0
+ */
+function parsePositiveNumber(value: string): number {
+  const parsed = parseNumber(value);
+  if (parsed === 0) {
+    throw new InvalidArgumentError('Must be greater than 0.');
+  }
+  return parsed;
+}
+
+/**
+ * Parse the global --output format
+ */
+function parseOutputFormat(value: string): OutputFormat {
+  if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    throw new InvalidArgumentError(`Expected one of: ${OUTPUT_FORMATS.join(', ')}.`);
+  }
+  return value as OutputFormat;
+}
 
 const program = new Command();
 
 program
   .name('hubspot-crm')
   .description('Inspect and debug HubSpot CRM schemas and associations')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option('--profile <name>', 'Portal profile to use (see: hubspot-crm profiles list)')
+  .option('--max-retries <count>', 'Retries per request on 429/5xx responses (default 4)', parseNumber)
+  .option('--rate-limit <requestsPerSecond>', 'Client-side request rate limit (default 10)', parsePositiveNumber)
+  .option('--no-cache', 'Do not read or write the on-disk schema cache')
+  .option('--refresh', 'Ignore cached data and refetch it from HubSpot')
+  .option('--offline', 'Answer only from cached data, never call HubSpot')
+  .option('--cache-ttl <minutes>', 'How long cached data stays fresh (default 60)', parseNumber)
+  .option('--output <format>', `Output format: ${OUTPUT_FORMATS.join(', ')}`, parseOutputFormat);
+
+// Global options are copied onto each command's options so commands read a single object
+program.hook('preAction', (thisCommand, actionCommand) => {
+  const names: string[] = [];
+  for (let command: Command | null = actionCommand; command && command !== thisCommand; command = command.parent) {
+    names.unshift(command.name());
+  }
+  actionCommand.setOptionValue('commandPath', names.join(' '));
+
+  for (const [key, value] of Object.entries(thisCommand.opts())) {
+    if (actionCommand.getOptionValue(key) === undefined) {
+      actionCommand.setOptionValue(key, value);
+    }
+  }
+
+  const output: OutputFormat | undefined = thisCommand.opts().output;
+  if (isStructuredFormat(output) && actionCommand.getOptionValue('json') === undefined) {
+    actionCommand.setOptionValue('json', true);
+  }
+  configureColors(output);
+});
 
 // Schemas command
 program
@@ -44,13 +121,47 @@ program
   .option('--quiet', 'Suppress headers')
   .option('--verbose', 'Show raw API paths')
   .option('-p, --properties', 'Show all properties for the object')
+  .option('--by-group', 'With --properties, group properties by property group')
   .action(inspectObjectCommand);
 
+// Property command
+program
+  .command('property <objectName> <propertyName>')
+  .description('Inspect a single property deeply - options, flags, modification metadata and API usage')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .option('--verbose', 'Show raw API paths')
+  .action(inspectPropertyCommand);
+
+// Groups command
+program
+  .command('groups <objectName>')
+  .description('List property groups of an object - calls /crm/v3/properties/{object}/groups')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .option('--verbose', 'Show raw API paths')
+  .action(listPropertyGroupsCommand);
+
+// Find-property command
+program
+  .command('find-property <query>')
+  .description('Search property names, labels, descriptions and option labels across all objects')
+  .option('--type <type>', 'Only properties of this type (string, number, enumeration, date, ...)')
+  .option('--field-type <fieldType>', 'Only properties of this field type (text, select, checkbox, ...)')
+  .option('--custom-only', 'Only custom (non HubSpot-defined) properties')
+  .option('--group <groupName>', 'Only properties in this property group')
+  .option('--limit <count>', 'Maximum results to show (default 25)', parseNumber)
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .option('--verbose', 'Show objects that could not be searched')
+  .action(findPropertyCommand);
+
 // Associations command
 program
   .command('associations <objectA> <objectB>')
   .description('List associations between two objects - calls /crm/v4/associations/{A}/{B}/types')
   .option('--verify', 'Verify if you can safely associate these two objects via the CRM v4 API')
+  .option('--per-record <count>', 'With --verify, warn when associating this many objectB records with one objectA record exceeds a limit', parseNumber)
   .option('--json', 'Machine-readable output')
   .option('--quiet', 'Suppress headers')
   .option('--verbose', 'Show raw API paths')
@@ -60,11 +171,35 @@ program
 program
   .command('verify <objectA> <objectB>')
   .description('Verify if you can safely associate two objects via the CRM v4 API - shows recommended API usage')
+  .option('--per-record <count>', 'Warn when associating this many objectB records with one objectA record exceeds a limit', parseNumber)
+  .option('--emit <format>', 'Print ready-to-run requests for the recommended path: curl, fetch, axios, http or python')
+  .option('--label <label>', 'With --emit, the association label (or type ID) to use (default: the unlabeled type)')
   .option('--json', 'Machine-readable output')
   .option('--quiet', 'Suppress headers')
   .option('--verbose', 'Show raw API paths')
   .action(verifyAssociationsCommand);
 
+// Records command
+program
+  .command('records <objectA> <idA> <objectB> [idB]')
+  .description('Show the existing associations of one record and check whether another can be added (read-only)')
+  .option('--label <label>', 'Association label (or type ID) you plan to add (default: the unlabeled type)')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Only show the checks')
+  .action(recordsCommand);
+
+// Diagnose command
+program
+  .command('diagnose [method] [path]')
+  .description('Explain a failing API request and print a corrected one (read-only)')
+  .option('--body <json>', 'JSON body of the request')
+  .option('--response <json>', 'Error response HubSpot returned')
+  .option('--status <code>', 'HTTP status of the failed request', parseNumber)
+  .option('--file <file>', 'Read the request from a JSON or .http file (- for stdin)')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Only show findings, root cause and the corrected request')
+  .action(diagnoseCommand);
+
 // Custom objects command
 program
   .command('custom')
@@ -76,10 +211,179 @@ program
 
 // Errors command
 program
-  .command('errors')
-  .description('Show documentation for common HubSpot API errors')
+  .command('errors [query]')
+  .description('Show common HubSpot API errors, or look one up by status code, category or raw error JSON')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
   .action(showErrorsCommand);
 
+// Snapshot command
+program
+  .command('snapshot')
+  .description('Export schemas, properties and association types for every object pair as a sorted JSON snapshot')
+  .option('-o, --out <file>', 'Write the snapshot to a file instead of stdout')
+  .option('--no-associations', 'Skip association types (faster, fewer API calls)')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable summary when writing to a file')
+  .option('--quiet', 'Suppress headers')
+  .action(snapshotCommand);
+
+// Diff command
+program
+  .command('diff <a> <b>')
+  .description('Compare two snapshots (files or live profiles) and report schema changes - exits 4 on breaking changes')
+  .option('--no-associations', 'Skip association types when capturing live snapshots')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .action(diffCommand);
+
+// Compare command
+program
+  .command('compare')
+  .description('Compare two portals side by side - exits 4 when association type IDs differ')
+  .requiredOption('--left <profile>', 'Left portal: a profile name or snapshot file')
+  .requiredOption('--right <profile>', 'Right portal: a profile name or snapshot file')
+  .option('--no-associations', 'Skip association types (faster, fewer API calls)')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Only show differences')
+  .action(compareCommand);
+
+// Codegen command
+program
+  .command('codegen')
+  .description('Generate TypeScript types and ID constants, JSON Schema or Zod validators from portal schemas')
+  .option('-o, --out-dir <dir>', 'Output directory (default hubspot-types, or hubspot-schemas for json-schema)')
+  .option('--format <format>', 'ts (interfaces + constants), json-schema or zod (default ts)')
+  .option('--snapshot <file>', 'Generate from a snapshot file instead of the live portal')
+  .option('--objects <names>', 'Comma-separated internal names of objects to generate')
+  .option('--no-associations', 'Skip association type constants (fewer API calls)')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable summary')
+  .option('--quiet', 'Suppress headers')
+  .option('--verbose', 'List generated files')
+  .action(codegenCommand);
+
+// Check command
+program
+  .command('check <manifest>')
+  .description('Check the portal against a YAML/JSON data-model manifest - reports pass, fail or drift per expectation')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Only show failures and drift')
+  .option('--verbose', 'Show expected and actual values for drift')
+  .action(checkCommand);
+
+// Plan command
+program
+  .command('plan <manifest>')
+  .description('Print the API calls that would bring the portal in line with a manifest - nothing is sent')
+  .option('--format <format>', 'shell (curl), json or http (.http file) (default shell)')
+  .option('-o, --out <file>', 'Write the plan to a file instead of stdout')
+  .option('--json', 'Same as --format json')
+  .option('--quiet', 'Suppress progress and warnings on stderr')
+  .action(planCommand);
+
+// Lint command
+program
+  .command('lint')
+  .description('Check schemas against hygiene rules - exits 5 when a rule with error severity fails')
+  .option('--config <file>', 'Rule severities file (default .hubspot-lint.json when present)')
+  .option('--format <format>', 'text, json or sarif (default text)')
+  .option('--snapshot <file>', 'Lint a snapshot file instead of the live portal')
+  .option('--objects <names>', 'Comma-separated internal names of objects to lint')
+  .option('--list-rules', 'List rules with their configured severities')
+  .option('--json', 'Machine-readable output (same as --format json)')
+  .option('--quiet', 'Suppress headers')
+  .action(lintCommand);
+
+// Docs command
+program
+  .command('docs')
+  .description('Generate a data dictionary of every object: a Markdown file or a static HTML site')
+  .option('--format <format>', 'markdown (single file) or html (site with a page per object) (default markdown)')
+  .option('-o, --out <path>', 'Output file for markdown (default hubspot-data-dictionary.md) or directory for html (default hubspot-docs)')
+  .option('--snapshot <file>', 'Generate from a snapshot file instead of the live portal (works offline)')
+  .option('--objects <names>', 'Comma-separated internal names of objects to document')
+  .option('--no-associations', 'Skip association types (fewer API calls)')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable summary')
+  .option('--quiet', 'Suppress headers')
+  .action(docsCommand);
+
+// Graph command
+program
+  .command('graph')
+  .description('Draw how objects are associated, as a Mermaid erDiagram or a Graphviz DOT file')
+  .option('--format <format>', 'mermaid or dot (default mermaid)')
+  .option('-o, --out <file>', 'Write the diagram to a file instead of stdout')
+  .option('--focus <object>', 'Only show this object and its neighborhood')
+  .option('--depth <hops>', 'With --focus, how many hops to include (default 1)', parseNumber)
+  .option('--hide-unlabeled', 'Hide HUBSPOT_DEFINED association types without a label')
+  .option('--snapshot <file>', 'Draw from a snapshot file instead of the live portal (works offline)')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .action(graphCommand);
+
+// Path command
+program
+  .command('path <from> <to>')
+  .description('Find multi-hop association paths between two objects, with the API call for each hop')
+  .option('--max-depth <hops>', 'Longest path to consider (default 3)', parseNumber)
+  .option('--limit <count>', 'Number of paths to show, shortest first (default 5)', parseNumber)
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .action(pathCommand);
+
+// Matrix command
+program
+  .command('matrix')
+  .description('Check association types for every ordered pair of objects and show them as one grid')
+  .option('--snapshot <file>', 'Read association types from a snapshot file instead of the live portal')
+  .option('--concurrency <count>', 'Concurrent association type requests (default 4)', parseNumber)
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .action(matrixCommand);
+
+// Profiles command group
+const profiles = program
+  .command('profiles')
+  .description('Manage named portal profiles (prod, sandbox, dev) in the config file');
+
+profiles
+  .command('list')
+  .description('List configured profiles')
+  .option('--json', 'Machine-readable output')
+  .option('--quiet', 'Suppress headers')
+  .option('--verbose', 'Show base URLs')
+  .action(listProfilesCommand);
+
+profiles
+  .command('add <name>')
+  .description('Add or update a profile')
+  .option('--token <token>', 'Access token to store in the config file')
+  .option('--token-env <variable>', 'Environment variable holding the access token (recommended)')
+  .option('--portal-id <id>', 'HubSpot portal (hub) ID')
+  .option('--base-url <url>', 'API base URL (default https://api.hubapi.com)')
+  .option('--default-output <format>', `Default output format for this profile: ${OUTPUT_FORMATS.join(', ')}`, parseOutputFormat)
+  .option('--default', 'Make this the current profile')
+  .option('--json', 'Machine-readable output')
+  .action(addProfileCommand);
+
+profiles
+  .command('remove <name>')
+  .description('Remove a profile')
+  .option('--json', 'Machine-readable output')
+  .action(removeProfileCommand);
+
+profiles
+  .command('current [name]')
+  .description('Show the active profile, or set the current profile')
+  .option('--json', 'Machine-readable output')
+  .action(currentProfileCommand);
+
 // Help examples
 program.on('--help', () => {
   console.log('');
@@ -88,22 +392,51 @@ program.on('--help', () => {
   console.log('  $ hubspot-crm schemas');
   console.log('  $ hubspot-crm schemas --verbose');
   console.log('  $ hubspot-crm schemas --filter contact');
+  console.log('  $ hubspot-crm schemas --output csv > objects.csv');
   console.log('  $ hubspot-crm object contacts');
   console.log('  $ hubspot-crm object contacts --properties');
+  console.log('  $ hubspot-crm object contacts --properties --by-group');
+  console.log('  $ hubspot-crm groups contacts');
+  console.log('  $ hubspot-crm property contacts lifecyclestage');
+  console.log('  $ hubspot-crm find-property "renewal date"');
   console.log('  $ hubspot-crm associations contacts companies');
   console.log('  $ hubspot-crm associations contacts listings --verify');
   console.log('  $ hubspot-crm verify contacts listings');
+  console.log('  $ hubspot-crm verify contacts listings --emit curl --label Owner');
+  console.log('  $ hubspot-crm path line_items companies');
+  console.log('  $ hubspot-crm records contacts 101 companies 2001 --label Primary');
+  console.log('  $ hubspot-crm diagnose --file failed-request.json');
+  console.log('  $ hubspot-crm errors MISSING_SCOPES');
   console.log('  $ hubspot-crm custom');
+  console.log('  $ hubspot-crm graph --focus contacts --depth 2');
+  console.log('  $ hubspot-crm matrix --output csv > associations.csv');
   console.log('  $ hubspot-crm errors');
+  console.log('  $ hubspot-crm --rate-limit 5 --max-retries 6 verify contacts listings');
+  console.log('  $ hubspot-crm --offline verify contacts listings');
+  console.log('  $ hubspot-crm profiles add sandbox --token-env HUBSPOT_SANDBOX_TOKEN --portal-id 12345');
+  console.log('  $ hubspot-crm --profile sandbox schemas');
+  console.log('  $ hubspot-crm snapshot --out before.json');
+  console.log('  $ hubspot-crm diff before.json prod');
+  console.log('  $ hubspot-crm compare --left prod --right sandbox');
+  console.log('  $ hubspot-crm codegen --out-dir src/hubspot-types');
+  console.log('  $ hubspot-crm codegen --format json-schema --objects contacts,deals');
+  console.log('  $ hubspot-crm lint --format sarif > lint.sarif');
+  console.log('  $ hubspot-crm docs --snapshot prod.json --format html --out site');
+  console.log('  $ hubspot-crm check hubspot-model.yaml');
+  console.log('  $ hubspot-crm plan hubspot-model.yaml --format http --out converge.http');
   console.log('');
   console.log('Exit Codes:');
   console.log('  0    Verification passed');
   console.log('  1    Association invalid');
   console.log('  2    Object not found');
   console.log('  3    HubSpot API error');
+  console.log('  4    Breaking schema changes found (diff), association type IDs differ (compare)');
+  console.log('  5    Lint errors found (lint)');
   console.log('');
   console.log('Environment Variables:');
-  console.log('  HUBSPOT_ACCESS_TOKEN    Required. Your HubSpot private app access token');
+  console.log('  HUBSPOT_ACCESS_TOKEN    Your HubSpot private app access token (when no profile is active)');
+  console.log('  HUBSPOT_PROFILE         Profile to use when --profile is not given');
+  console.log('  HUBSPOT_CRM_CONFIG      Path to the profiles config file');
   console.log('');
 });
 
@@ -0,0 +1,278 @@
+/**
+ * TypeScript code generation from portal schemas
+ */
+
+import { HubSpotSchema, HubSpotProperty, AssociationDefinition } from './types';
+import { SchemaSnapshot } from './snapshot';
+import { STANDARD_OBJECTS } from './utils';
+
+export interface GeneratedFile {
+  /** Path relative to the output directory */
+  path: string;
+  contents: string;
+}
+
+export type CodegenFormat = 'ts' | 'json-schema' | 'zod';
+
+export interface CodegenOptions {
+  /** Only generate these objects (by internal name) */
+  objects?: string[];
+}
+
+/**
+ * Generate one interface module per object, a constants module and an index
+ */
+export function generateTypeScript(snapshot: SchemaSnapshot, options: CodegenOptions = {}): GeneratedFile[] {
+  const schemas = selectSchemas(snapshot.schemas, options.objects);
+  const typeNames = assignTypeNames(schemas);
+  const header = generatedHeader(snapshot);
+
+  const files: GeneratedFile[] = schemas.map((schema) => ({
+    path: `${schema.name}.ts`,
+    contents: header + generateObjectModule(schema, typeNames.get(schema.name)!),
+  }));
+
+  files.push({
+    path: 'constants.ts',
+    contents: header + generateConstantsModule(schemas, snapshot),
+  });
+
+  files.push({
+    path: 'index.ts',
+    contents: header + [
+      ...schemas.map((schema) => `export * from './${schema.name}';`),
+      `export * from './constants';`,
+      '',
+    ].join('\n'),
+  });
+
+  return files;
+}
+
+/**
+ * Restrict schemas to the requested objects, failing on unknown names
+ * Snapshots taken before standard objects were captured only hold custom schemas.
+ */
+export function selectSchemas(schemas: HubSpotSchema[], names?: string[]): HubSpotSchema[] {
+  if (!names || names.length === 0) {
+    return schemas;
+  }
+
+  const unknown = names.filter((name) => !schemas.some((s) => s.name === name));
+  if (unknown.length > 0) {
+    const standard = unknown.filter((name) => STANDARD_OBJECTS.includes(name));
+    if (standard.length > 0) {
+      throw new Error(`No schema for ${standard.join(', ')} in this snapshot. Capture a new one with \`hubspot-crm snapshot\`.`);
+    }
+    throw new Error(`Unknown object(s): ${unknown.join(', ')}. Run \`hubspot-crm schemas\` to see valid names.`);
+  }
+  return schemas.filter((s) => names.includes(s.name));
+}
+
+/**
+ * Whether a property value can be written through the API
+ */
+export function isReadOnlyProperty(prop: HubSpotProperty): boolean {
+  return !!prop.calculated || !!prop.modificationMetadata?.readOnlyValue;
+}
+
+/**
+ * Whether an enumeration holds several values (semicolon-separated on the wire)
+ */
+export function isMultiValueEnumeration(prop: HubSpotProperty): boolean {
+  return prop.type === 'enumeration' && prop.fieldType === 'checkbox';
+}
+
+/**
+ * Convert a label or internal name to a PascalCase identifier
+ */
+export function toPascalCase(value: string): string {
+  const result = value
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+  return /^[0-9]/.test(result) ? `_${result}` : result || '_';
+}
+
+/**
+ * Quote an object key unless it is a valid identifier
+ */
+export function formatKey(key: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function generatedHeader(snapshot: SchemaSnapshot): string {
+  const portal = snapshot.source.portalId ? ` portal ${snapshot.source.portalId}` : '';
+  return [
+    '/**',
+    ` * Generated by hubspot-crm codegen from${portal || ' HubSpot'} schemas`,
+    ' * Do not edit by hand - rerun `hubspot-crm codegen` instead.',
+    ' */',
+    '',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Type base names come from the singular label, falling back to the internal name on collisions
+ */
+export function assignTypeNames(schemas: HubSpotSchema[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+
+  schemas.forEach((schema) => {
+    let name = toPascalCase(schema.labels.singular);
+    if (used.has(name)) {
+      name = toPascalCase(schema.name);
+    }
+    used.add(name);
+    names.set(schema.name, name);
+  });
+
+  return names;
+}
+
+function generateObjectModule(schema: HubSpotSchema, baseName: string): string {
+  const lines: string[] = [];
+  const interfaceName = `${baseName}Properties`;
+  const properties = [...(schema.properties || [])].sort((a, b) => a.name.localeCompare(b.name));
+
+  // Union types for enumeration options
+  const optionTypes = new Map<string, string>();
+  properties
+    .filter((prop) => prop.type === 'enumeration' && prop.options && prop.options.length > 0 && !prop.externalOptions)
+    .forEach((prop) => {
+      const typeName = `${baseName}${toPascalCase(prop.name)}Option`;
+      optionTypes.set(prop.name, typeName);
+      const values = prop.options!.map((o) => JSON.stringify(o.value)).join(' | ');
+      lines.push(`/** Options of ${schema.name}.${prop.name} ("${prop.label}") */`);
+      lines.push(`export type ${typeName} = ${values};`);
+      lines.push('');
+    });
+
+  lines.push('/**');
+  lines.push(` * ${schema.labels.singular} (${schema.name}, objectTypeId ${schema.objectTypeId || schema.id})`);
+  lines.push(' */');
+  lines.push(`export interface ${interfaceName} {`);
+
+  properties.forEach((prop) => {
+    const doc = [prop.label, prop.description].filter(Boolean).join(' - ');
+    const notes: string[] = [];
+    if (prop.calculated) notes.push('calculated');
+    if (['number', 'bool', 'date', 'datetime'].includes(prop.type)) notes.push(`HubSpot type ${prop.type}`);
+    if (isMultiValueEnumeration(prop) && optionTypes.has(prop.name)) {
+      notes.push(`semicolon-separated ${optionTypes.get(prop.name)} values`);
+    }
+    lines.push(`  /** ${escapeComment(doc)}${notes.length > 0 ? ` (${notes.join(', ')})` : ''} */`);
+
+    const readonly = isReadOnlyProperty(prop) ? 'readonly ' : '';
+    lines.push(`  ${readonly}${formatKey(prop.name)}?: ${propertyValueType(prop, optionTypes.get(prop.name))} | null;`);
+  });
+
+  lines.push('}');
+  lines.push('');
+
+  const required = [...(schema.requiredProperties || [])].sort();
+  lines.push(`/** Properties HubSpot requires when creating a ${schema.labels.singular} */`);
+  lines.push(`export const ${toConstantCase(baseName)}_REQUIRED_PROPERTIES = ${JSON.stringify(required)} as const;`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * TypeScript type of a property value as the CRM API returns it: every value is a string
+ */
+function propertyValueType(prop: HubSpotProperty, optionType?: string): string {
+  switch (prop.type) {
+    case 'number':
+      return '`${number}`';
+    case 'bool':
+      return "'true' | 'false'";
+    case 'enumeration':
+      return optionType && !isMultiValueEnumeration(prop) ? optionType : 'string';
+    default:
+      // string, date, datetime, phone_number, json, ...
+      return 'string';
+  }
+}
+
+function generateConstantsModule(schemas: HubSpotSchema[], snapshot: SchemaSnapshot): string {
+  const lines: string[] = [];
+  const names = new Set(schemas.map((s) => s.name));
+
+  lines.push('/** objectTypeId per internal object name */');
+  lines.push('export const OBJECT_TYPE_IDS = {');
+  schemas.forEach((schema) => {
+    lines.push(`  ${formatKey(schema.name)}: ${JSON.stringify(schema.objectTypeId || schema.id)},`);
+  });
+  lines.push('} as const;');
+  lines.push('');
+
+  lines.push('/**');
+  lines.push(' * Association types per object pair: ASSOCIATION_TYPES[from][to][label]');
+  lines.push(' * Unlabeled types are keyed "default" (or "unlabeled_<id>" when there are several).');
+  lines.push(' */');
+  lines.push('export const ASSOCIATION_TYPES = {');
+
+  const pairsByFrom = new Map<string, Array<{ to: string; types: AssociationDefinition[] }>>();
+  snapshot.associationTypes
+    .filter((pair) => names.has(pair.fromObjectType) && names.has(pair.toObjectType))
+    .forEach((pair) => {
+      const list = pairsByFrom.get(pair.fromObjectType) || [];
+      list.push({ to: pair.toObjectType, types: pair.types });
+      pairsByFrom.set(pair.fromObjectType, list);
+    });
+
+  [...pairsByFrom.keys()].sort().forEach((from) => {
+    lines.push(`  ${formatKey(from)}: {`);
+    pairsByFrom.get(from)!.forEach(({ to, types }) => {
+      lines.push(`    ${formatKey(to)}: {`);
+      associationTypeKeys(types).forEach(([key, type]) => {
+        lines.push(
+          `      ${formatKey(key)}: { associationTypeId: ${type.associationTypeId}, associationCategory: ${JSON.stringify(type.associationCategory)}, label: ${JSON.stringify(type.name || null)} },`
+        );
+      });
+      lines.push('    },');
+    });
+    lines.push('  },');
+  });
+
+  lines.push('} as const;');
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Key each association type by its label in snake_case
+ */
+function associationTypeKeys(types: AssociationDefinition[]): Array<[string, AssociationDefinition]> {
+  const unlabeled = types.filter((t) => !t.name);
+  const used = new Set<string>();
+
+  return types.map((type) => {
+    let key: string;
+    if (!type.name) {
+      key = unlabeled.length === 1 ? 'default' : `unlabeled_${type.associationTypeId}`;
+    } else {
+      key = type.name.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '').toLowerCase() || `type_${type.associationTypeId}`;
+    }
+    if (used.has(key)) {
+      key = `${key}_${type.associationTypeId}`;
+    }
+    used.add(key);
+    return [key, type];
+  });
+}
+
+function toConstantCase(pascal: string): string {
+  return pascal.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function escapeComment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ');
+}
@@ -1,14 +1,39 @@
+import * as fs from 'fs';
+import * as path from 'path';
 import chalk from 'chalk';
 import { HubSpotClient } from './hubspot-client';
-import { formatSchema, formatSchemasTable, formatSchemasSimple, formatObjectDetails, formatAssociationsList, formatVerifyOutput, formatCommonErrors, isPortalScoped } from './utils';
-import { HubSpotSchema } from './types';
+import { formatSchema, formatSchemasTable, formatSchemasSimple, formatObjectDetails, formatAssociationsList, formatVerifyOutput, formatErrorCatalog, formatSnapshotDiff, formatPropertyDetails, formatPropertySearchResults, formatLintFindings, formatCheckResults, formatPortalComparison, formatAssociationMatrix, formatAssociationPaths, formatRecordAssociations, formatDiagnosis, formatPropertyEntry, formatPropertyGroups, groupProperties, examplePropertyValue, isPortalScoped, STANDARD_OBJECTS } from './utils';
+import { HubSpotSchema, AssociationDefinition } from './types';
+import { SchemaCache, CacheMissError, cacheNamespaceForToken, formatAge } from './cache';
+import { resolveConnection, loadConfig, saveConfig, configPath, activeProfileName, profileToken, ConfigError, Profile, OutputFormat, OUTPUT_FORMATS, ResolvedConnection } from './config';
+import { CommandResult, renderResult, renderError, isStructuredFormat, configureColors } from './output';
+import { HubSpotApiError, HubSpotNotFoundError, HubSpotValidationError } from './errors';
+import { generateTypeScript, GeneratedFile, CodegenFormat, isReadOnlyProperty, selectSchemas } from './codegen';
+import { generateJsonSchemas, generateZodSchemas } from './validators';
+import { collectSearchableObjects, searchProperties } from './property-search';
+import { LINT_RULES, DEFAULT_LINT_CONFIG_FILE, loadLintConfig, lintSchemas, ruleSetting, toSarif } from './lint';
+import { loadManifest, checkProperty, checkAssociation, CheckResult } from './manifest';
+import { buildPlan, renderPlan, associationKey, PlanFormat, PortalState } from './plan';
+import { comparePortals } from './compare';
+import { generateMarkdownDocs, generateHtmlDocs, DocsFormat } from './docs';
+import { buildAssociationGraph, renderGraph, GraphFormat } from './graph';
+import { buildAssociationMatrix } from './matrix';
+import { collectAssociationEdges, findAssociationPaths } from './association-path';
+import { associationRequestTemplates, renderRequestTemplates, EmitFormat, EMIT_FORMATS, RequestTemplate } from './request-templates';
+import { checkPlannedAssociation } from './record-associations';
+import { ERROR_CATALOG, lookupErrors, parseErrorQuery } from './error-catalog';
+import { describeEndpoint, diagnoseRequest, parseFailingRequest, parseJson, propertyReferences, DiagnoseState, FailingRequest } from './diagnose';
+import { pairAssociationLabels, labelsFromDefinitions, applyAssociationLimits, AssociationLabelPair } from './association-labels';
+import { createSnapshot, serializeSnapshot, loadSnapshot, diffSnapshots, SchemaSnapshot } from './snapshot';
 
 // Exit codes as per specification
-const EXIT_CODES = {
+export const EXIT_CODES = {
   SUCCESS: 0,
   ASSOCIATION_INVALID: 1,
   OBJECT_NOT_FOUND: 2,
   API_ERROR: 3,
+  BREAKING_CHANGES: 4,
+  LINT_ERRORS: 5,
 };
 
 interface CommandOptions {
@@ -17,28 +42,144 @@ interface CommandOptions {
   verbose?: boolean;
   filter?: string;
   properties?: boolean;
+  byGroup?: boolean;
   verify?: boolean;
+  perRecord?: number;
+  emit?: string;
+  label?: string;
+  maxRetries?: number;
+  rateLimit?: number;
+  cache?: boolean;
+  refresh?: boolean;
+  offline?: boolean;
+  cacheTtl?: number;
+  profile?: string;
+  /** Global --output format; without it, --json prints each command's original JSON shape */
+  output?: OutputFormat;
+  /** Command path set by the CLI (e.g. "profiles list"), recorded in the output envelope */
+  commandPath?: string;
 }
 
 /**
- * List all schemas command
+ * Map an error to its exit code - the single place API errors become exit codes
  */
-export async function listSchemasCommand(options: CommandOptions) {
-  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-  
-  if (!accessToken) {
-    console.error(chalk.red('Error: HUBSPOT_ACCESS_TOKEN environment variable is required'));
-    console.error(chalk.gray('Set it with: export HUBSPOT_ACCESS_TOKEN=your_token_here'));
-    process.exit(EXIT_CODES.API_ERROR);
+export function exitCodeForError(error: unknown): number {
+  if (error instanceof HubSpotNotFoundError) {
+    return EXIT_CODES.OBJECT_NOT_FOUND;
+  }
+  return EXIT_CODES.API_ERROR;
+}
+
+/**
+ * Report a command failure and exit with the matching exit code
+ */
+function handleCommandError(error: any, options: CommandOptions): never {
+  const output = error instanceof HubSpotApiError ? error.toJSON() : { error: error.message };
+  if (isStructuredFormat(options.output)) {
+    console.log(renderError(output, options.output!, options.commandPath ?? null));
+  } else if (options.json) {
+    console.log(JSON.stringify(output));
+  } else {
+    console.error(chalk.red('Error:'), error.message);
+    if (error instanceof ConfigError && error.hint) {
+      console.error(chalk.gray(error.hint));
+    }
+    if (error instanceof HubSpotApiError) {
+      if (error.category) {
+        console.error(chalk.gray(`  Category: ${error.category}${error.subCategory ? ` (${error.subCategory})` : ''}`));
+      }
+      if (error.path) {
+        console.error(chalk.gray(`  Path: ${error.path}`));
+      }
+      if (error.correlationId) {
+        console.error(chalk.gray(`  Correlation ID: ${error.correlationId}`));
+      }
+    }
+  }
+  process.exit(exitCodeForError(error));
+}
+
+/**
+ * Print a command's result: --output picks a renderer, while plain --json keeps
+ * the command's original JSON shape
+ */
+function emit(options: CommandOptions, result: CommandResult): void {
+  if (options.output) {
+    console.log(renderResult(result, options.output, options.commandPath ?? null));
+  } else if (options.json) {
+    console.log(JSON.stringify(result.data));
+  } else {
+    console.log(renderResult(result, 'text'));
+  }
+}
+
+/**
+ * Resolve the active profile and create a client configured from the global CLI flags
+ * (profile, retries, rate limit, cache). A profile's default output format applies
+ * unless --json or --output was given explicitly.
+ */
+function connect(options: CommandOptions): HubSpotClient {
+  return connectWithProfile(options).client;
+}
+
+/**
+ * Same as connect, but also returns the resolved profile details
+ */
+function connectWithProfile(options: CommandOptions): { client: HubSpotClient; connection: ResolvedConnection } {
+  const connection = resolveConnection(options.profile);
+  if (options.json === undefined && options.output === undefined && connection.output) {
+    if (connection.output === 'json') {
+      options.json = true;
+    } else if (connection.output !== 'text') {
+      options.output = connection.output;
+      options.json = isStructuredFormat(connection.output) || undefined;
+      configureColors(connection.output);
+    }
+  }
+
+  const useCache = options.cache !== false || options.offline;
+  const namespace = connection.portalId
+    ? `portal-${connection.portalId}`
+    : cacheNamespaceForToken(connection.accessToken);
+  const cache = useCache
+    ? new SchemaCache(namespace, {
+        ttlMs: options.cacheTtl !== undefined ? options.cacheTtl * 60 * 1000 : undefined,
+        mode: options.offline ? 'offline' : options.refresh ? 'refresh' : 'default',
+      })
+    : undefined;
+
+  const client = new HubSpotClient(connection.accessToken, {
+    baseUrl: connection.baseUrl,
+    maxRetries: options.maxRetries,
+    requestsPerSecond: options.rateLimit,
+    cache,
+  });
+  return { client, connection };
+}
+
+/**
+ * Tell the user when any of the data shown came from the cache, and how old it is
+ * Written to stderr so --json output stays parseable.
+ */
+function reportCacheAge(client: HubSpotClient): void {
+  const fetchedAt = client.cachedDataFetchedAt();
+  if (fetchedAt) {
+    console.error(chalk.gray(`ℹ Using cached data fetched ${formatAge(fetchedAt)} (${fetchedAt.toISOString()}). Use --refresh for live data.`));
   }
+}
 
+/**
+ * List all schemas command
+ */
+export async function listSchemasCommand(options: CommandOptions) {
   try {
-    const client = new HubSpotClient(accessToken);
+    const client = connect(options);
     if (!options.quiet && !options.json) {
       console.log(chalk.blue('Fetching schemas from HubSpot...'));
     }
     
     const schemas = await client.getSchemas();
+    reportCacheAge(client);
     
     // Apply filter if provided
     let filteredSchemas = schemas;
@@ -52,35 +193,25 @@ export async function listSchemasCommand(options: CommandOptions) {
       );
     }
 
-    if (filteredSchemas.length === 0) {
-      if (options.json) {
-        console.log(JSON.stringify({ results: [], total: 0 }));
-      } else {
-        console.log(chalk.yellow('No schemas found matching the filter.'));
-      }
-      return;
-    }
-
-    if (options.json) {
-      // JSON output
-      const output = filteredSchemas.map((s) => ({
-        name: s.name,
-        objectTypeId: s.objectTypeId || s.id,
-        label: s.labels.singular,
-        isPortalScoped: isPortalScoped(s),
-      }));
-      console.log(JSON.stringify({ results: output, total: output.length }));
-    } else {
+    const results = filteredSchemas.map((s) => ({
+      name: s.name,
+      objectTypeId: s.objectTypeId || s.id,
+      label: s.labels.singular,
+      isPortalScoped: isPortalScoped(s),
+    }));
+    emit(options, {
+      data: { results, total: results.length },
+      rows: results,
+      columns: ['name', 'objectTypeId', 'label', 'isPortalScoped'],
       // Standard output matching spec format
-      console.log(formatSchemasSimple(filteredSchemas, options.quiet));
-    }
+      text: () =>
+        filteredSchemas.length === 0
+          ? chalk.yellow('No schemas found matching the filter.')
+          : formatSchemasSimple(filteredSchemas, options.quiet),
+      table: () => formatSchemasTable(filteredSchemas),
+    });
   } catch (error: any) {
-    if (options.json) {
-      console.log(JSON.stringify({ error: error.message }));
-    } else {
-      console.error(chalk.red('Error:'), error.message);
-    }
-    process.exit(EXIT_CODES.API_ERROR);
+    handleCommandError(error, options);
   }
 }
 
@@ -88,64 +219,79 @@ export async function listSchemasCommand(options: CommandOptions) {
  * Inspect a specific object type command
  */
 export async function inspectObjectCommand(objectType: string, options: CommandOptions) {
-  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-  
-  if (!accessToken) {
-    console.error(chalk.red('Error: HUBSPOT_ACCESS_TOKEN environment variable is required'));
-    console.error(chalk.gray('Set it with: export HUBSPOT_ACCESS_TOKEN=your_token_here'));
-    process.exit(EXIT_CODES.API_ERROR);
-  }
-
   try {
-    const client = new HubSpotClient(accessToken);
+    const client = connect(options);
     if (!options.quiet && !options.json) {
       console.log(chalk.blue(`Fetching schema for "${objectType}"...`));
     }
     
     const schema = await client.getSchema(objectType);
+    const groups = options.properties && options.byGroup ? await client.getPropertyGroups(schema.name) : null;
+    reportCacheAge(client);
     
-    if (options.json) {
-      // JSON output
-      const output = {
-        name: schema.name,
-        label: schema.labels.singular,
-        objectTypeId: schema.objectTypeId || schema.id,
-        isPortalScoped: isPortalScoped(schema),
-        associations: schema.associations || [],
-        ...(options.properties && schema.properties ? { properties: schema.properties } : {}),
-      };
-      console.log(JSON.stringify(output));
-    } else {
-      // Standard output matching spec format
-      console.log(formatObjectDetails(schema, options.quiet, options.verbose));
-      
-      // Show properties if requested
-      if (options.properties && schema.properties) {
-        console.log(chalk.bold('\nProperties:'));
-        console.log(chalk.gray('-'.repeat(80)));
-        
-        const sorted = [...schema.properties].sort((a, b) => a.name.localeCompare(b.name));
-        
-        sorted.forEach((prop) => {
-          const hubspotDefined = prop.hubspotDefined ? chalk.blue('[HS]') : chalk.yellow('[CUSTOM]');
-          console.log(`  ${hubspotDefined} ${chalk.white(prop.name)}`);
-          console.log(chalk.gray(`      Label: ${prop.label}`));
-          console.log(chalk.gray(`      Type: ${prop.type} (${prop.fieldType})`));
-          if (prop.description) {
-            console.log(chalk.gray(`      Description: ${prop.description}`));
+    const output = {
+      name: schema.name,
+      label: schema.labels.singular,
+      objectTypeId: schema.objectTypeId || schema.id,
+      isPortalScoped: isPortalScoped(schema),
+      associations: schema.associations || [],
+      ...(options.properties && schema.properties ? { properties: schema.properties } : {}),
+      ...(groups && schema.properties
+        ? {
+            propertyGroups: groupProperties(schema.properties, groups).map((group) => ({
+              name: group.name,
+              label: group.label,
+              displayOrder: group.displayOrder === Number.MAX_SAFE_INTEGER ? null : group.displayOrder,
+              customCount: group.customCount,
+              hubspotDefinedCount: group.hubspotDefinedCount,
+              properties: group.properties.map((prop) => prop.name),
+            })),
           }
-          console.log('');
-        });
-      }
-    }
+        : {}),
+    };
+
+    emit(options, {
+      data: output,
+      rows: options.properties && schema.properties
+        ? [...schema.properties]
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map((prop) => ({
+              name: prop.name,
+              label: prop.label,
+              type: prop.type,
+              fieldType: prop.fieldType,
+              groupName: prop.groupName || null,
+              hubspotDefined: !!prop.hubspotDefined,
+            }))
+        : [{ name: output.name, label: output.label, objectTypeId: output.objectTypeId, isPortalScoped: output.isPortalScoped }],
+      text: () => {
+        // Standard output matching spec format
+        const lines = [formatObjectDetails(schema, options.quiet, options.verbose)];
+
+        // Show properties if requested
+        if (options.properties && schema.properties) {
+          if (groups) {
+            groupProperties(schema.properties, groups).forEach((group) => {
+              lines.push(chalk.bold(`\n${group.label} (${group.name})`) + chalk.gray(` - ${group.customCount} custom, ${group.hubspotDefinedCount} HubSpot-defined`));
+              lines.push(chalk.gray('-'.repeat(80)));
+              group.properties.forEach((prop) => lines.push(formatPropertyEntry(prop)));
+            });
+            return lines.join('\n');
+          }
+
+          lines.push(chalk.bold('\nProperties:'));
+          lines.push(chalk.gray('-'.repeat(80)));
+
+          const sorted = [...schema.properties].sort((a, b) => a.name.localeCompare(b.name));
+          sorted.forEach((prop) => {
+            lines.push(formatPropertyEntry(prop));
+          });
+        }
+        return lines.join('\n');
+      },
+    });
   } catch (error: any) {
-    const isNotFound = error.message.includes('404');
-    if (options.json) {
-      console.log(JSON.stringify({ error: error.message }));
-    } else {
-      console.error(chalk.red('Error:'), error.message);
-    }
-    process.exit(isNotFound ? EXIT_CODES.OBJECT_NOT_FOUND : EXIT_CODES.API_ERROR);
+    handleCommandError(error, options);
   }
 }
 
@@ -157,55 +303,44 @@ export async function inspectAssociationsCommand(
   objectB: string,
   options: CommandOptions
 ) {
-  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-  
-  if (!accessToken) {
-    console.error(chalk.red('Error: HUBSPOT_ACCESS_TOKEN environment variable is required'));
-    console.error(chalk.gray('Set it with: export HUBSPOT_ACCESS_TOKEN=your_token_here'));
-    process.exit(EXIT_CODES.API_ERROR);
-  }
-
   // If --verify flag is set, delegate to verifyAssociationsCommand
   if (options.verify) {
     return verifyAssociationsCommand(objectA, objectB, options);
   }
 
   try {
-    const client = new HubSpotClient(accessToken);
+    const client = connect(options);
     
     if (!options.quiet && !options.json) {
       console.log(chalk.blue(`Checking associations from "${objectA}" to "${objectB}"...`));
     }
     
     const result = await client.verifyAssociationPath(objectA, objectB);
+    const labelPairs = result.valid
+      ? await fetchLabelPairs(client, objectA, objectB, result.associationTypes?.results || [])
+      : [];
+    reportCacheAge(client);
     
-    if (options.json) {
-      console.log(JSON.stringify({
+    emit(options, {
+      data: {
         objectA,
         objectB,
         valid: result.valid,
         path: result.path,
         associationTypes: result.associationTypes?.results || [],
+        labelPairs,
         error: result.error,
-      }));
-      if (!result.valid) {
-        process.exit(EXIT_CODES.ASSOCIATION_INVALID);
-      }
-      return;
-    }
-    
-    console.log(formatAssociationsList(objectA, objectB, result, options.quiet, options.verbose));
+      },
+      rows: result.associationTypes?.results || [],
+      columns: ['fromObjectType', 'toObjectType', 'associationTypeId', 'associationCategory', 'name'],
+      text: () => formatAssociationsList(objectA, objectB, result, options.quiet, options.verbose, labelPairs),
+    });
     
     if (!result.valid) {
       process.exit(EXIT_CODES.ASSOCIATION_INVALID);
     }
   } catch (error: any) {
-    if (options.json) {
-      console.log(JSON.stringify({ error: error.message }));
-    } else {
-      console.error(chalk.red('Error:'), error.message);
-    }
-    process.exit(EXIT_CODES.API_ERROR);
+    handleCommandError(error, options);
   }
 }
 
@@ -225,61 +360,26 @@ export async function verifyAssociationsCommand(
   objectB: string,
   options: CommandOptions
 ) {
-  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-  
-  if (!accessToken) {
-    console.error(chalk.red('Error: HUBSPOT_ACCESS_TOKEN environment variable is required'));
-    console.error(chalk.gray('Set it with: export HUBSPOT_ACCESS_TOKEN=your_token_here'));
-    process.exit(EXIT_CODES.API_ERROR);
-  }
-
   try {
-    const client = new HubSpotClient(accessToken);
+    if (options.emit && !EMIT_FORMATS.includes(options.emit as EmitFormat)) {
+      throw new Error(`Invalid emit format "${options.emit}" (expected ${EMIT_FORMATS.join(', ')})`);
+    }
+    const { client, connection } = connectWithProfile(options);
     
     // Step 1: Fetch all schemas (for custom objects discovery)
     const schemas = await client.getSchemas();
     
-    // Step 2: Check object A existence
-    // First try schema lookup (custom objects are only discoverable via schemas)
-    const schemaA = findSchemaByNameOrLabel(schemas, objectA);
-    let objectAExists: boolean;
-    let verifiedViaA: 'schemas' | 'objects';
-    
-    if (schemaA !== null) {
-      // Found in schemas - it's a custom object
-      objectAExists = true;
-      verifiedViaA = 'schemas';
-    } else {
-      // Not in schemas, try probing the objects API (for standard objects)
-      const probeResultA = await client.objectExists(objectA);
-      objectAExists = probeResultA.exists;
-      verifiedViaA = 'objects';
-    }
-    
-    // Step 3: Check object B existence
-    const schemaB = findSchemaByNameOrLabel(schemas, objectB);
-    let objectBExists: boolean;
-    let verifiedViaB: 'schemas' | 'objects';
-    
-    if (schemaB !== null) {
-      // Found in schemas - it's a custom object
-      objectBExists = true;
-      verifiedViaB = 'schemas';
-    } else {
-      // Not in schemas, try probing the objects API (for standard objects)
-      const probeResultB = await client.objectExists(objectB);
-      objectBExists = probeResultB.exists;
-      verifiedViaB = 'objects';
-    }
-    
-    // Get the actual internal names
-    const internalNameA = schemaA?.name || objectA;
-    const internalNameB = schemaB?.name || objectB;
+    // Steps 2-3: Check object A and B existence
+    const resolvedA = await resolveObject(client, schemas, objectA);
+    const resolvedB = await resolveObject(client, schemas, objectB);
+    const { schema: schemaA, exists: objectAExists, verifiedVia: verifiedViaA, internalName: internalNameA } = resolvedA;
+    const { schema: schemaB, exists: objectBExists, verifiedVia: verifiedViaB, internalName: internalNameB } = resolvedB;
     
     // Step 4: Only check association definition after BOTH objects exist
     let associationResult = null;
     let associationExists = false;
     let cardinality = '';
+    let labelPairs: AssociationLabelPair[] = [];
     
     if (objectAExists && objectBExists) {
       // GET /crm/v4/associations/{A}/{B}/types
@@ -288,22 +388,43 @@ export async function verifyAssociationsCommand(
         (associationResult.associationTypes?.results?.length ?? 0) > 0;
       
       if (associationExists && associationResult.associationTypes?.results) {
-        // Try to determine cardinality from association types
-        const firstAssoc = associationResult.associationTypes.results[0];
-        if (firstAssoc.name) {
-          cardinality = firstAssoc.name;
-        }
+        labelPairs = await fetchLabelPairs(client, internalNameA, internalNameB, associationResult.associationTypes.results);
+        // Cardinality of the default (unlabeled) type, from the definition configurations
+        const defaultPair = labelPairs.find((pair) => pair.typeId !== null && pair.label === null) || labelPairs.find((pair) => pair.typeId !== null);
+        cardinality = defaultPair?.cardinality || '';
       }
     }
     
+    // Limits only apply to the A → B types; a batch writing more B records per A record fails
+    const perRecord = options.perRecord;
+    const limitWarnings = perRecord === undefined ? [] : labelPairs
+      .filter((pair) => pair.typeId !== null && pair.maxToObjectIds != null && perRecord > pair.maxToObjectIds)
+      .map((pair) =>
+        `Associating ${perRecord} ${internalNameB} records with one ${internalNameA} record exceeds the limit of ${pair.maxToObjectIds} for ${pair.label ? `"${pair.label}"` : 'the default type'} (typeId ${pair.typeId})`
+      );
+
+    // Request templates for the recommended path, using the type picked with --label
+    let requests: RequestTemplate[] | null = null;
+    if (options.emit && associationExists) {
+      const pair = selectLabelPair(labelPairs, options.label, internalNameA, internalNameB);
+      requests = associationRequestTemplates({
+        fromObjectType: internalNameA,
+        toObjectType: internalNameB,
+        associationCategory: pair.category,
+        associationTypeId: pair.typeId!,
+        fromIdPlaceholder: recordIdPlaceholder(schemaA, internalNameA),
+        toIdPlaceholder: recordIdPlaceholder(schemaB, internalNameB),
+      });
+    }
+
     // Detect portal-scoped names
     const isAPortalScoped = schemaA ? isPortalScoped(schemaA) : false;
     const isBPortalScoped = schemaB ? isPortalScoped(schemaB) : false;
+    reportCacheAge(client);
     const labelDiffersA = schemaA && objectA !== schemaA.name && objectA === schemaA.labels.singular.toLowerCase();
     const labelDiffersB = schemaB && objectB !== schemaB.name && objectB === schemaB.labels.singular.toLowerCase();
     
-    if (options.json) {
-      const output = {
+    const output = {
         objectA: {
           input: objectA,
           internalName: internalNameA,
@@ -322,26 +443,30 @@ export async function verifyAssociationsCommand(
           defined: associationExists,
           cardinality: cardinality || null,
           types: associationResult?.associationTypes?.results || [],
+          labelPairs,
+          limitWarnings,
         },
         recommendedApiPath: associationExists 
           ? `POST /crm/v4/associations/${internalNameA}/${internalNameB}/batch/create`
           : null,
         valid: objectAExists && objectBExists && associationExists,
+        ...(requests ? { requests } : {}),
         writeOperationsPerformed: false,
       };
-      console.log(JSON.stringify(output));
-      
-      if (!objectAExists || !objectBExists) {
-        process.exit(EXIT_CODES.OBJECT_NOT_FOUND);
-      }
-      if (!associationExists) {
-        process.exit(EXIT_CODES.ASSOCIATION_INVALID);
-      }
-      return;
-    }
-    
-    // Standard output
-    console.log(formatVerifyOutput({
+
+    emit(options, {
+      data: output,
+      rows: [{
+        objectA: internalNameA,
+        objectAExists,
+        objectB: internalNameB,
+        objectBExists,
+        associationDefined: associationExists,
+        valid: output.valid,
+        recommendedApiPath: output.recommendedApiPath,
+      }],
+      // Standard output, or only the generated requests with --emit
+      text: () => requests ? renderRequestTemplates(requests, options.emit as EmitFormat, connection.baseUrl || 'https://api.hubapi.com').trimEnd() : formatVerifyOutput({
       objectA,
       objectB,
       internalNameA,
@@ -357,7 +482,10 @@ export async function verifyAssociationsCommand(
       labelDiffersA: labelDiffersA || false,
       labelDiffersB: labelDiffersB || false,
       associationTypes: associationResult?.associationTypes?.results || [],
-    }, options.quiet, options.verbose));
+      labelPairs,
+      limitWarnings,
+    }, options.quiet, options.verbose),
+    });
     
     if (!objectAExists || !objectBExists) {
       process.exit(EXIT_CODES.OBJECT_NOT_FOUND);
@@ -366,13 +494,199 @@ export async function verifyAssociationsCommand(
       process.exit(EXIT_CODES.ASSOCIATION_INVALID);
     }
   } catch (error: any) {
-    if (options.json) {
-      console.log(JSON.stringify({ error: error.message }));
-    } else {
-      console.error(chalk.red('Error:'), error.message);
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Inspect the existing associations of one record to an object type, and whether adding
+ * another (to idB when given) would duplicate a label or exceed a configured limit
+ */
+export async function recordsCommand(
+  objectA: string,
+  idA: string,
+  objectB: string,
+  idB: string | undefined,
+  options: CommandOptions
+) {
+  try {
+    if (options.offline) {
+      throw new Error('Record associations are never cached; run records without --offline');
+    }
+    const client = connect(options);
+    const schemas = await client.getSchemas();
+    const resolvedA = await resolveObject(client, schemas, objectA);
+    const resolvedB = await resolveObject(client, schemas, objectB);
+    const internalNameA = resolvedA.internalName;
+    const internalNameB = resolvedB.internalName;
+
+    const missingObjects = [resolvedA, resolvedB].filter((object) => !object.exists).map((object) => object.input);
+    const record = { objectType: internalNameA, id: idA, exists: false };
+    const target = idB === undefined ? null : { objectType: internalNameB, id: idB, exists: false };
+    if (missingObjects.length === 0) {
+      record.exists = await recordExists(client, internalNameA, idA);
+      if (target) {
+        target.exists = await recordExists(client, internalNameB, idB!);
+      }
+    }
+
+    const missingRecords = [record, target].filter((r) => r && !r.exists).map((r) => `${r!.objectType} ${r!.id}`);
+    if (missingObjects.length > 0 || missingRecords.length > 0) {
+      const message = missingObjects.length > 0
+        ? `Object(s) not found: ${missingObjects.join(', ')}. Run \`hubspot-crm schemas\` to see valid names.`
+        : `Record(s) not found: ${missingRecords.join(', ')}`;
+      emit(options, {
+        data: { objectA: internalNameA, objectB: internalNameB, missingObjects, record, target, associations: [], total: 0, valid: false, writeOperationsPerformed: false },
+        text: () => chalk.red(`✖ ${message}`),
+      });
+      process.exit(EXIT_CODES.OBJECT_NOT_FOUND);
+    }
+
+    // GET /crm/v4/associations/{A}/{B}/types, then labels and limits for both directions
+    const associationResult = await client.verifyAssociationPath(internalNameA, internalNameB);
+    const types = associationResult.valid ? associationResult.associationTypes?.results || [] : [];
+    const labelPairs = types.length > 0 ? await fetchLabelPairs(client, internalNameA, internalNameB, types) : [];
+    const plannedType = labelPairs.length > 0 ? selectLabelPair(labelPairs, options.label, internalNameA, internalNameB) : null;
+
+    // GET /crm/v4/objects/{A}/{idA}/associations/{B}, and the inverse when idB is given
+    const associations = await client.getRecordAssociations(internalNameA, idA, internalNameB);
+    const inverseAssociations = idB !== undefined ? await client.getRecordAssociations(internalNameB, idB, internalNameA) : undefined;
+    reportCacheAge(client);
+
+    const checks = plannedType
+      ? checkPlannedAssociation({
+          objectA: internalNameA,
+          recordA: idA,
+          objectB: internalNameB,
+          recordB: idB,
+          pair: plannedType,
+          associations,
+          inverseAssociations,
+        })
+      : [];
+    const valid = plannedType !== null && checks.every((check) => check.ok);
+
+    emit(options, {
+      data: {
+        objectA: internalNameA,
+        objectB: internalNameB,
+        record,
+        target,
+        associations,
+        total: associations.length,
+        plannedType,
+        checks,
+        valid,
+        writeOperationsPerformed: false,
+      },
+      rows: associations.map((association) => ({
+        toObjectId: association.toObjectId,
+        typeIds: association.associationTypes.map((type) => type.typeId).join(','),
+        labels: association.associationTypes.map((type) => type.label || '(unlabeled)').join(', '),
+      })),
+      text: () => formatRecordAssociations(record, internalNameB, associations, plannedType, checks, target, options.quiet),
+    });
+
+    if (!valid) {
+      process.exit(EXIT_CODES.ASSOCIATION_INVALID);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Whether a record exists; other API errors are rethrown
+ */
+async function recordExists(client: HubSpotClient, objectType: string, recordId: string): Promise<boolean> {
+  try {
+    await client.getRecord(objectType, recordId);
+    return true;
+  } catch (error: any) {
+    if (error instanceof HubSpotNotFoundError) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Association labels for both directions, each A → B type paired with its B → A inverse,
+ * with the limits from the definition configurations
+ * Falls back to the A → B types when labels are unavailable (e.g. offline without cached labels).
+ */
+async function fetchLabelPairs(
+  client: HubSpotClient,
+  objectA: string,
+  objectB: string,
+  forwardTypes: AssociationDefinition[]
+): Promise<AssociationLabelPair[]> {
+  const forward = (await readOptional(() => client.getAssociationLabels(objectA, objectB))) ?? labelsFromDefinitions(forwardTypes);
+  const reverse = (await readOptional(() => client.getAssociationLabels(objectB, objectA))) ?? [];
+  const forwardConfigs = await readOptional(() => client.getAssociationConfigurations(objectA, objectB));
+  const reverseConfigs = await readOptional(() => client.getAssociationConfigurations(objectB, objectA));
+  return applyAssociationLimits(pairAssociationLabels(forward, reverse), forwardConfigs, reverseConfigs);
+}
+
+/**
+ * The A → B type matching --label (a label or a type ID), or the default unlabeled type
+ */
+function selectLabelPair(pairs: AssociationLabelPair[], label: string | undefined, objectA: string, objectB: string): AssociationLabelPair {
+  const forward = pairs.filter((pair) => pair.typeId !== null);
+  if (!label) {
+    return forward.find((pair) => pair.label === null) || forward[0];
+  }
+
+  const wanted = label.trim().toLowerCase();
+  const pair = forward.find((p) => (p.label || '').toLowerCase() === wanted || String(p.typeId) === wanted);
+  if (!pair) {
+    const available = forward.map((p) => `${p.label ? `"${p.label}"` : '(unlabeled)'} ${p.typeId}`).join(', ');
+    throw new Error(`No association type "${label}" from ${objectA} to ${objectB}. Available: ${available}`);
+  }
+  return pair;
+}
+
+/**
+ * Record ID placeholder from the singular label, e.g. <LISTING_ID>
+ */
+function recordIdPlaceholder(schema: HubSpotSchema | null, internalName: string): string {
+  const name = (schema?.labels.singular || internalName).toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+  return `<${name}_ID>`;
+}
+
+/**
+ * Supplementary reads: null when the endpoint rejects the pair or the data is not cached offline
+ */
+async function readOptional<T>(read: () => Promise<T>): Promise<T | null> {
+  try {
+    return await read();
+  } catch (error: any) {
+    if (error instanceof HubSpotNotFoundError || error instanceof HubSpotValidationError || error instanceof CacheMissError) {
+      return null;
     }
-    process.exit(EXIT_CODES.API_ERROR);
+    throw error;
+  }
+}
+
+interface ResolvedObject {
+  input: string;
+  internalName: string;
+  exists: boolean;
+  verifiedVia: 'schemas' | 'objects';
+  schema: HubSpotSchema | null;
+}
+
+/**
+ * Resolve an object name or label to its internal name
+ * Schemas are tried first (custom objects are only discoverable there), then the objects API is probed.
+ */
+async function resolveObject(client: HubSpotClient, schemas: HubSpotSchema[], input: string): Promise<ResolvedObject> {
+  const schema = findSchemaByNameOrLabel(schemas, input);
+  if (schema !== null) {
+    return { input, internalName: schema.name, exists: true, verifiedVia: 'schemas', schema };
   }
+  const probe = await client.objectExists(input);
+  return { input, internalName: input, exists: probe.exists, verifiedVia: 'objects', schema: null };
 }
 
 /**
@@ -400,63 +714,1175 @@ function findSchemaByNameOrLabel(schemas: HubSpotSchema[], nameOrLabel: string):
 }
 
 /**
- * Show common errors documentation
+ * Show the error catalog, or the entries matching a status code, category or raw error JSON
  */
-export async function showErrorsCommand() {
-  console.log(formatCommonErrors());
+export async function showErrorsCommand(query: string | undefined, options: CommandOptions) {
+  try {
+    const parsed = query !== undefined ? parseErrorQuery(query) : null;
+    const matches = parsed ? lookupErrors(parsed) : ERROR_CATALOG.map((entry) => ({ entry, matchedOn: [] }));
+    const results = matches.map(({ entry, matchedOn }) => ({ ...entry, matchedOn }));
+    emit(options, {
+      data: { query: parsed, results, total: results.length },
+      rows: results,
+      columns: ['status', 'category', 'subCategory', 'id', 'cause', 'solution'],
+      text: () => {
+        const title = query === undefined ? null : query.trim().startsWith('{') ? 'Errors matching the error response' : `Errors matching "${query}"`;
+        return formatErrorCatalog(matches, title, options.quiet);
+      },
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
 }
 
 /**
  * Show portal-scoped (custom) objects
  */
 export async function listCustomObjectsCommand(options: CommandOptions = {}) {
-  const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
-  
-  if (!accessToken) {
-    console.error(chalk.red('Error: HUBSPOT_ACCESS_TOKEN environment variable is required'));
-    console.error(chalk.gray('Set it with: export HUBSPOT_ACCESS_TOKEN=your_token_here'));
-    process.exit(EXIT_CODES.API_ERROR);
-  }
-
   try {
-    const client = new HubSpotClient(accessToken);
+    const client = connect(options);
     if (!options.quiet && !options.json) {
       console.log(chalk.blue('Fetching custom objects from HubSpot...'));
     }
     
     const schemas = await client.getSchemas();
     const customObjects = schemas.filter(isPortalScoped);
+    reportCacheAge(client);
     
-    if (customObjects.length === 0) {
-      if (options.json) {
-        console.log(JSON.stringify({ results: [], total: 0 }));
-      } else {
-        console.log(chalk.yellow('No custom objects found in this portal.'));
-      }
-      return;
+    const results = customObjects.map((s) => ({
+      name: s.name,
+      objectTypeId: s.objectTypeId || s.id,
+      label: s.labels.singular,
+    }));
+    emit(options, {
+      data: { results, total: results.length },
+      rows: results,
+      columns: ['name', 'objectTypeId', 'label'],
+      text: () => {
+        if (customObjects.length === 0) {
+          return chalk.yellow('No custom objects found in this portal.');
+        }
+        return [
+          chalk.bold(`\n${customObjects.length} Custom Objects Found:`),
+          chalk.gray('='.repeat(80)),
+          ...customObjects.map((schema) => formatSchema(schema, true)),
+        ].join('\n');
+      },
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface ProfileOptions extends CommandOptions {
+  token?: string;
+  tokenEnv?: string;
+  portalId?: string;
+  baseUrl?: string;
+  defaultOutput?: string;
+  default?: boolean;
+}
+
+/**
+ * List configured portal profiles
+ */
+export async function listProfilesCommand(options: CommandOptions = {}) {
+  try {
+    const config = loadConfig();
+    const active = activeProfileName(config, options.profile);
+    const names = Object.keys(config.profiles).sort();
+
+    const results = names.map((name) => {
+      const profile = config.profiles[name];
+      const { token, tokenSource } = profileToken(profile);
+      return {
+        name,
+        active: name === active,
+        portalId: profile.portalId || null,
+        baseUrl: profile.baseUrl || null,
+        output: profile.output || null,
+        tokenSource,
+        hasToken: !!token,
+      };
+    });
+
+    emit(options, {
+      data: { configPath: configPath(), results, total: results.length },
+      rows: results,
+      columns: ['name', 'active', 'portalId', 'baseUrl', 'output', 'tokenSource', 'hasToken'],
+      text: () => {
+        const lines: string[] = [];
+        if (names.length === 0) {
+          lines.push(chalk.yellow('No profiles configured.'));
+          lines.push(chalk.gray('Add one with: hubspot-crm profiles add <name> --token-env <VAR> --portal-id <id>'));
+          return lines.join('\n');
+        }
+
+        if (!options.quiet) {
+          lines.push('');
+          lines.push(chalk.gray(`Profiles in ${configPath()}`));
+          lines.push('');
+        }
+
+        results.forEach((profile) => {
+          const marker = profile.active ? chalk.green('*') : ' ';
+          const portal = profile.portalId ? `portal ${profile.portalId}` : 'portal unknown';
+          const tokenStatus = profile.hasToken ? chalk.gray(`token: ${profile.tokenSource}`) : chalk.red(`token missing (${profile.tokenSource})`);
+          lines.push(`${marker} ${profile.name.padEnd(20)} ${portal.padEnd(20)} ${tokenStatus}`);
+          if (options.verbose && profile.baseUrl) {
+            lines.push(chalk.gray(`    Base URL: ${profile.baseUrl}`));
+          }
+        });
+        lines.push('');
+        return lines.join('\n');
+      },
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Add or update a portal profile
+ */
+export async function addProfileCommand(name: string, options: ProfileOptions) {
+  try {
+    if (options.token && options.tokenEnv) {
+      throw new ConfigError('Use either --token or --token-env, not both');
     }
-    
-    if (options.json) {
-      const output = customObjects.map((s) => ({
-        name: s.name,
-        objectTypeId: s.objectTypeId || s.id,
-        label: s.labels.singular,
-      }));
-      console.log(JSON.stringify({ results: output, total: output.length }));
-    } else {
-      console.log(chalk.bold(`\n${customObjects.length} Custom Objects Found:`));
-      console.log(chalk.gray('='.repeat(80)));
-      
-      customObjects.forEach((schema) => {
-        console.log(formatSchema(schema, true));
+    if (options.defaultOutput && !(OUTPUT_FORMATS as readonly string[]).includes(options.defaultOutput)) {
+      throw new ConfigError(`Invalid output format "${options.defaultOutput}" (expected ${OUTPUT_FORMATS.join(', ')})`);
+    }
+
+    const config = loadConfig();
+    const existed = name in config.profiles;
+    if (!existed && !options.token && !options.tokenEnv) {
+      throw new ConfigError(
+        'A profile needs --token or --token-env',
+        'Prefer --token-env so the token is not stored in the config file'
+      );
+    }
+
+    // Updating a profile keeps the settings that were not given again
+    const profile: Profile = { ...config.profiles[name] };
+    if (options.token || options.tokenEnv) {
+      delete profile.token;
+      delete profile.tokenEnv;
+    }
+    if (options.token) profile.token = options.token;
+    if (options.tokenEnv) profile.tokenEnv = options.tokenEnv;
+    if (options.portalId) profile.portalId = options.portalId;
+    if (options.baseUrl) profile.baseUrl = options.baseUrl;
+    if (options.defaultOutput) profile.output = options.defaultOutput as OutputFormat;
+
+    config.profiles[name] = profile;
+    if (options.default || !config.currentProfile) {
+      config.currentProfile = name;
+    }
+    saveConfig(config);
+
+    emit(options, {
+      data: { name, added: !existed, updated: existed, current: config.currentProfile === name },
+      text: () =>
+        chalk.green(`✔ Profile "${name}" ${existed ? 'updated' : 'added'}`) +
+        (config.currentProfile === name ? '\n' + chalk.gray(`  "${name}" is now the current profile`) : ''),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Remove a portal profile
+ */
+export async function removeProfileCommand(name: string, options: CommandOptions = {}) {
+  try {
+    const config = loadConfig();
+    if (!(name in config.profiles)) {
+      throw new ConfigError(`Profile "${name}" not found in ${configPath()}`);
+    }
+
+    delete config.profiles[name];
+    if (config.currentProfile === name) {
+      delete config.currentProfile;
+    }
+    saveConfig(config);
+
+    emit(options, {
+      data: { name, removed: true },
+      text: () => chalk.green(`✔ Profile "${name}" removed`),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Show the active profile, or make the given profile current
+ */
+export async function currentProfileCommand(name: string | undefined, options: CommandOptions = {}) {
+  try {
+    const config = loadConfig();
+
+    if (name) {
+      if (!(name in config.profiles)) {
+        throw new ConfigError(`Profile "${name}" not found in ${configPath()}`);
+      }
+      config.currentProfile = name;
+      saveConfig(config);
+      emit(options, {
+        data: { current: name },
+        text: () => chalk.green(`✔ Current profile set to "${name}"`),
       });
+      return;
     }
+
+    const active = activeProfileName(config, options.profile);
+    const source = options.profile ? '--profile' : process.env.HUBSPOT_PROFILE ? 'HUBSPOT_PROFILE' : 'config';
+    const profile = active ? config.profiles[active] : undefined;
+    const tokenSource = profile ? profileToken(profile).tokenSource : active ? null : 'env:HUBSPOT_ACCESS_TOKEN';
+
+    emit(options, {
+      data: {
+        current: active,
+        selectedVia: active ? source : null,
+        exists: active ? !!profile : null,
+        portalId: profile?.portalId || null,
+        tokenSource,
+      },
+      text: () => {
+        if (!active) {
+          return chalk.yellow('No profile active - using HUBSPOT_ACCESS_TOKEN');
+        }
+        if (!profile) {
+          return chalk.red(`✖ Profile "${active}" (from ${source}) is not defined in ${configPath()}`);
+        }
+        const lines = [`Current profile: ${chalk.bold(active)} ${chalk.gray(`(from ${source})`)}`];
+        if (profile.portalId) {
+          lines.push(`Portal ID: ${chalk.white(profile.portalId)}`);
+        }
+        lines.push(`Token: ${chalk.white(tokenSource)}`);
+        return lines.join('\n');
+      },
+    });
   } catch (error: any) {
-    if (options.json) {
-      console.log(JSON.stringify({ error: error.message }));
-    } else {
-      console.error(chalk.red('Error:'), error.message);
+    handleCommandError(error, options);
+  }
+}
+
+interface SnapshotOptions extends CommandOptions {
+  out?: string;
+  snapshot?: string;
+  associations?: boolean;
+  concurrency?: number;
+}
+
+/**
+ * Export the portal's schemas and association types as a sorted JSON snapshot
+ */
+export async function snapshotCommand(options: SnapshotOptions) {
+  try {
+    if (!options.quiet && options.out) {
+      console.error(chalk.blue('Capturing schema snapshot from HubSpot...'));
+    }
+    const snapshot = await captureSnapshot(options);
+
+    const serialized = serializeSnapshot(snapshot);
+    if (!options.out) {
+      process.stdout.write(serialized);
+      return;
     }
-    process.exit(EXIT_CODES.API_ERROR);
+
+    fs.writeFileSync(options.out, serialized);
+    emit(options, {
+      data: {
+        file: options.out,
+        objects: snapshot.schemas.length,
+        associationPairs: snapshot.associationTypes.length,
+      },
+      text: () =>
+        chalk.green(`✔ Snapshot of ${snapshot.schemas.length} objects written to ${options.out}`) +
+        (snapshot.includesAssociationTypes
+          ? '\n' + chalk.gray(`  ${snapshot.associationTypes.length} object pairs with association types`)
+          : ''),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Compare two snapshots (files or live profiles) and report schema changes
+ * Exits with BREAKING_CHANGES when any change would break existing API calls.
+ */
+export async function diffCommand(a: string, b: string, options: SnapshotOptions) {
+  try {
+    const before = await resolveSnapshotSource(a, options);
+    const after = await resolveSnapshotSource(b, options);
+    const changes = diffSnapshots(before, after);
+    const breaking = changes.filter((c) => c.breaking).length;
+
+    emit(options, {
+      data: {
+        before: a,
+        after: b,
+        changes,
+        total: changes.length,
+        breaking,
+      },
+      rows: changes,
+      columns: ['object', 'kind', 'property', 'breaking', 'message'],
+      text: () => formatSnapshotDiff(changes, { before: a, after: b }, options.quiet),
+    });
+
+    if (breaking > 0) {
+      process.exit(EXIT_CODES.BREAKING_CHANGES);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Load one side of a diff: a snapshot file, or a live snapshot of a profile
+ * (`profile:<name>` forces the profile interpretation)
+ */
+async function resolveSnapshotSource(spec: string, options: SnapshotOptions): Promise<SchemaSnapshot> {
+  let profile: string | null = null;
+  if (spec.startsWith('profile:')) {
+    profile = spec.slice('profile:'.length);
+  } else if (fs.existsSync(spec)) {
+    return loadSnapshot(spec);
+  } else if (spec in loadConfig().profiles) {
+    profile = spec;
+  } else {
+    throw new ConfigError(
+      `"${spec}" is neither a snapshot file nor a configured profile`,
+      'Create a snapshot with: hubspot-crm snapshot --out <file>'
+    );
+  }
+
+  if (!options.quiet && !options.json) {
+    console.error(chalk.blue(`Capturing live snapshot of profile "${profile}"...`));
+  }
+  return captureSnapshot({ ...options, profile });
+}
+
+/**
+ * Capture a live snapshot using the active profile
+ */
+async function captureSnapshot(
+  options: SnapshotOptions,
+  { client, connection } = connectWithProfile(options)
+): Promise<SchemaSnapshot> {
+  const snapshot = await createSnapshot(client, {
+    associationTypes: options.associations,
+    concurrency: options.concurrency,
+    profile: connection.profileName,
+    portalId: connection.portalId,
+  });
+  reportCacheAge(client);
+  return snapshot;
+}
+
+/**
+ * The portal model for generators: a snapshot file when --snapshot is given, otherwise live
+ * Pass a connection to capture through a client the caller keeps using.
+ */
+async function loadModel(
+  options: SnapshotOptions,
+  connected?: { client: HubSpotClient; connection: ResolvedConnection }
+): Promise<SchemaSnapshot> {
+  if (options.snapshot) {
+    return loadSnapshot(options.snapshot);
+  }
+  if (!options.quiet && !options.json) {
+    console.error(chalk.blue('Fetching schemas and association types from HubSpot...'));
+  }
+  return captureSnapshot(options, connected);
+}
+
+interface CodegenOptions extends SnapshotOptions {
+  outDir?: string;
+  objects?: string;
+  format?: string;
+}
+
+/**
+ * Generate TypeScript interfaces and ID constants, JSON Schema documents or Zod
+ * validators from the portal's schemas
+ */
+export async function codegenCommand(options: CodegenOptions) {
+  try {
+    const format = (options.format || 'ts') as CodegenFormat;
+    const generators: Record<CodegenFormat, typeof generateTypeScript> = {
+      'ts': generateTypeScript,
+      'json-schema': generateJsonSchemas,
+      'zod': generateZodSchemas,
+    };
+    if (!generators[format]) {
+      throw new Error(`Invalid format "${options.format}" (expected ts, json-schema or zod)`);
+    }
+
+    // Only the TypeScript constants module needs association types
+    const snapshot = await loadModel(format === 'ts' ? options : { ...options, associations: false });
+    const files = generators[format](snapshot, { objects: parseList(options.objects) });
+    const outDir = options.outDir || (format === 'json-schema' ? 'hubspot-schemas' : 'hubspot-types');
+
+    writeGeneratedFiles(outDir, files);
+
+    emit(options, {
+      data: { outDir, files: files.map((f) => f.path), total: files.length },
+      rows: files.map((f) => ({ path: path.join(outDir, f.path) })),
+      text: () =>
+        [
+          chalk.green(`✔ Generated ${files.length} files in ${outDir}`),
+          ...(options.verbose ? files.map((f) => chalk.gray(`  ${path.join(outDir, f.path)}`)) : []),
+        ].join('\n'),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Split a comma-separated option value
+ */
+function parseList(value?: string): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  return value.split(',').map((v) => v.trim()).filter(Boolean);
+}
+
+/**
+ * Write generated files below an output directory
+ */
+function writeGeneratedFiles(outDir: string, files: GeneratedFile[]): void {
+  files.forEach((file) => {
+    const target = path.join(outDir, file.path);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, file.contents);
+  });
+}
+
+/**
+ * Inspect a single property in depth
+ */
+export async function inspectPropertyCommand(objectType: string, propertyName: string, options: CommandOptions) {
+  try {
+    const client = connect(options);
+    if (!options.quiet && !options.json) {
+      console.log(chalk.blue(`Fetching property "${propertyName}" of "${objectType}"...`));
+    }
+
+    const prop = await client.getProperty(objectType, propertyName);
+    reportCacheAge(client);
+
+    const readOnly = isReadOnlyProperty(prop);
+    emit(options, {
+      data: {
+        objectType,
+        property: prop,
+        readOnly,
+        api: {
+          read: `GET /crm/v3/objects/${objectType}/{recordId}?properties=${prop.name}`,
+          write: readOnly ? null : `PATCH /crm/v3/objects/${objectType}/{recordId}`,
+          exampleBody: readOnly ? null : { properties: { [prop.name]: examplePropertyValue(prop) } },
+        },
+      },
+      // One row per option; properties without options get a single summary row
+      rows: prop.options && prop.options.length > 0
+        ? [...prop.options].sort((a, b) => a.displayOrder - b.displayOrder).map((o) => ({ ...o }))
+        : [{ name: prop.name, label: prop.label, type: prop.type, fieldType: prop.fieldType, groupName: prop.groupName || null, readOnly }],
+      text: () => formatPropertyDetails(objectType, prop, options.quiet, options.verbose),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface FindPropertyOptions extends CommandOptions {
+  type?: string;
+  fieldType?: string;
+  customOnly?: boolean;
+  group?: string;
+  limit?: number;
+}
+
+/**
+ * Search properties across every object by name, label, description and option labels
+ */
+export async function findPropertyCommand(query: string, options: FindPropertyOptions) {
+  try {
+    const client = connect(options);
+    if (!options.quiet && !options.json) {
+      console.log(chalk.blue(`Searching properties for "${query}"...`));
+    }
+
+    const { objects, skipped } = await collectSearchableObjects(client);
+    reportCacheAge(client);
+
+    const results = searchProperties(objects, query, {
+      type: options.type,
+      fieldType: options.fieldType,
+      customOnly: options.customOnly,
+      group: options.group,
+    });
+    const shown = results.slice(0, options.limit ?? 25);
+
+    const rows = shown.map((r) => ({
+      objectType: r.objectType,
+      name: r.property.name,
+      label: r.property.label,
+      type: r.property.type,
+      fieldType: r.property.fieldType,
+      groupName: r.property.groupName || null,
+      hubspotDefined: !!r.property.hubspotDefined,
+      score: r.score,
+      matchedOn: r.matchedOn,
+      matchedOption: r.matchedOption || null,
+    }));
+    emit(options, {
+      data: { query, results: rows, total: results.length, skippedObjects: skipped },
+      rows,
+      columns: ['objectType', 'name', 'label', 'type', 'fieldType', 'groupName', 'hubspotDefined', 'score', 'matchedOn'],
+      text: () =>
+        formatPropertySearchResults(query, shown, results.length, options.quiet) +
+        (options.verbose && skipped.length > 0
+          ? '\n' + chalk.gray(`Skipped objects: ${skipped.map((s) => s.objectType).join(', ')}`)
+          : ''),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * List the property groups of an object, with custom vs HubSpot-defined property counts
+ */
+export async function listPropertyGroupsCommand(objectType: string, options: CommandOptions) {
+  try {
+    const client = connect(options);
+    if (!options.quiet && !options.json) {
+      console.log(chalk.blue(`Fetching property groups for "${objectType}"...`));
+    }
+
+    const [groups, properties] = await Promise.all([
+      client.getPropertyGroups(objectType),
+      client.getProperties(objectType),
+    ]);
+    reportCacheAge(client);
+    const summaries = groupProperties(properties, groups);
+
+    const results = summaries.map((group) => ({
+      name: group.name,
+      label: group.label,
+      displayOrder: group.displayOrder === Number.MAX_SAFE_INTEGER ? null : group.displayOrder,
+      archived: group.archived,
+      customCount: group.customCount,
+      hubspotDefinedCount: group.hubspotDefinedCount,
+    }));
+    emit(options, {
+      data: { objectType, results, total: results.length },
+      rows: results,
+      text: () => formatPropertyGroups(objectType, summaries, options.quiet, options.verbose),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface LintOptions extends SnapshotOptions {
+  config?: string;
+  format?: string;
+  objects?: string;
+  listRules?: boolean;
+}
+
+/**
+ * Run hygiene rules over the portal's schemas
+ * Exits with LINT_ERRORS when any finding has error severity.
+ */
+export async function lintCommand(options: LintOptions) {
+  try {
+    if (options.format && !['text', 'json', 'sarif'].includes(options.format)) {
+      throw new Error(`Invalid format "${options.format}" (expected text, json or sarif)`);
+    }
+    // --format json is the same as --json; sarif bypasses the output renderers
+    const outputOptions = options.format === 'json' ? { ...options, json: true } : options;
+    const config = loadLintConfig(options.config);
+
+    if (options.listRules) {
+      const rules = LINT_RULES.map((rule) => ({
+        id: rule.id,
+        severity: ruleSetting(rule, config),
+        description: rule.description,
+      }));
+      emit(outputOptions, {
+        data: { rules },
+        rows: rules,
+        text: () => rules.map((rule) => `${rule.id.padEnd(35)} ${rule.severity.padEnd(8)} ${chalk.gray(rule.description)}`).join('\n'),
+      });
+      return;
+    }
+
+    const connected = options.snapshot ? undefined : connectWithProfile(options);
+    const snapshot = await loadModel({ ...options, json: options.json || !!options.format, associations: false }, connected);
+    let schemas = selectSchemas(snapshot.schemas, parseList(options.objects));
+    if (connected && !options.objects) {
+      // Archived objects are only listed with ?archived=true
+      const archived = await connected.client.getArchivedSchemas().catch((error) => {
+        if (error instanceof CacheMissError) {
+          if (!options.quiet) {
+            console.error(chalk.yellow('⚠ Archived objects are not linted: no cached list of them is available offline'));
+          }
+          return [];
+        }
+        throw error;
+      });
+      schemas = [...schemas, ...archived.filter((a) => !schemas.some((s) => s.name === a.name))];
+    }
+
+    const findings = lintSchemas(schemas, config);
+    if (options.format === 'sarif') {
+      const configFile = options.config || (fs.existsSync(DEFAULT_LINT_CONFIG_FILE) ? DEFAULT_LINT_CONFIG_FILE : undefined);
+      const artifact = options.snapshot || configFile;
+      const artifactUri = artifact && path.relative(process.cwd(), artifact).split(path.sep).join('/');
+      console.log(JSON.stringify(toSarif(findings, config, artifactUri), null, 2));
+    } else {
+      emit(outputOptions, {
+        data: {
+          objects: schemas.length,
+          findings,
+          total: findings.length,
+          errors: findings.filter((f) => f.severity === 'error').length,
+        },
+        rows: findings,
+        columns: ['severity', 'ruleId', 'objectType', 'property', 'message'],
+        text: () => formatLintFindings(findings, schemas.length, options.quiet),
+      });
+    }
+
+    if (findings.some((f) => f.severity === 'error')) {
+      process.exit(EXIT_CODES.LINT_ERRORS);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Check the live portal against a data-model manifest
+ * Exits with OBJECT_NOT_FOUND when an expected object is missing, otherwise with
+ * ASSOCIATION_INVALID when any expectation failed or drifted.
+ */
+export async function checkCommand(manifestFile: string, options: CommandOptions) {
+  try {
+    const manifest = loadManifest(manifestFile);
+    const client = connect(options);
+    if (!options.quiet && !options.json) {
+      console.log(chalk.blue(`Checking ${manifestFile} against HubSpot...`));
+    }
+
+    const schemas = await client.getSchemas();
+    const resolved = new Map<string, ResolvedObject>();
+    const resolve = async (input: string) => {
+      if (!resolved.has(input)) {
+        resolved.set(input, await resolveObject(client, schemas, input));
+      }
+      return resolved.get(input)!;
+    };
+
+    const results: CheckResult[] = [];
+    let objectMissing = false;
+
+    for (const expected of manifest.objects) {
+      const object = await resolve(expected.name);
+      if (!object.exists) {
+        objectMissing = true;
+        results.push({ kind: 'object', subject: expected.name, status: 'fail', message: `Object ${expected.name} not found` });
+        (expected.properties || []).forEach((prop) => {
+          results.push({
+            kind: 'property',
+            subject: `${expected.name}.${prop.name}`,
+            status: 'fail',
+            message: `Property ${expected.name}.${prop.name} not checked: object not found`,
+          });
+        });
+        continue;
+      }
+
+      const via = object.internalName !== expected.name ? ` (internal name ${object.internalName})` : '';
+      results.push({ kind: 'object', subject: expected.name, status: 'pass', message: `Object ${expected.name} exists${via}` });
+
+      if (expected.properties && expected.properties.length > 0) {
+        const properties = object.schema?.properties || (await client.getProperties(object.internalName));
+        expected.properties.forEach((prop) => {
+          results.push(checkProperty(object.internalName, prop, properties.find((p) => p.name === prop.name)));
+        });
+      }
+    }
+
+    for (const expected of manifest.associations) {
+      const from = await resolve(expected.from);
+      const to = await resolve(expected.to);
+      const subject = `${from.internalName} → ${to.internalName}`;
+      const missing = [from, to].filter((o) => !o.exists).map((o) => o.input);
+      if (missing.length > 0) {
+        objectMissing = true;
+        results.push({ kind: 'association', subject, status: 'fail', message: `Object ${missing.join(' and ')} not found` });
+        continue;
+      }
+
+      const verification = await client.verifyAssociationPath(from.internalName, to.internalName);
+      results.push(checkAssociation(subject, expected, verification.valid ? verification.associationTypes?.results || [] : null));
+    }
+
+    reportCacheAge(client);
+    const count = (status: string) => results.filter((r) => r.status === status).length;
+
+    emit(options, {
+      data: {
+        manifest: manifestFile,
+        results,
+        passed: count('pass'),
+        failed: count('fail'),
+        drifted: count('drift'),
+        valid: count('pass') === results.length,
+        writeOperationsPerformed: false,
+      },
+      rows: results,
+      columns: ['kind', 'subject', 'status', 'message'],
+      text: () => formatCheckResults(results, options.quiet, options.verbose),
+    });
+
+    if (objectMissing) {
+      process.exit(EXIT_CODES.OBJECT_NOT_FOUND);
+    }
+    if (count('pass') !== results.length) {
+      process.exit(EXIT_CODES.ASSOCIATION_INVALID);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface PlanOptions extends CommandOptions {
+  format?: string;
+  out?: string;
+}
+
+/**
+ * Print the API calls that would bring the portal in line with a manifest
+ * Nothing is sent: the plan is rendered as curl commands, JSON or an .http file.
+ */
+export async function planCommand(manifestFile: string, options: PlanOptions) {
+  try {
+    if (options.format && !['shell', 'json', 'http'].includes(options.format)) {
+      throw new Error(`Invalid format "${options.format}" (expected shell, json or http)`);
+    }
+    const manifest = loadManifest(manifestFile);
+    const { client, connection } = connectWithProfile(options);
+    if (!options.quiet) {
+      console.error(chalk.blue(`Planning changes for ${manifestFile}...`));
+    }
+
+    const schemas = await client.getSchemas();
+    const state: PortalState = { objects: new Map(), associations: new Map() };
+    const resolved = new Map<string, ResolvedObject>();
+    const resolve = async (input: string) => {
+      if (!resolved.has(input)) {
+        resolved.set(input, await resolveObject(client, schemas, input));
+      }
+      return resolved.get(input)!;
+    };
+
+    for (const expected of manifest.objects) {
+      const object = await resolve(expected.name);
+      if (!object.exists) {
+        state.objects.set(expected.name, { internalName: null, properties: [] });
+        continue;
+      }
+      const schema = object.schema || (await client.getSchema(object.internalName));
+      const groups = (expected.properties || []).some((p) => !p.groupName)
+        ? await client.getPropertyGroups(object.internalName)
+        : [];
+      state.objects.set(expected.name, {
+        internalName: object.internalName,
+        objectTypeId: schema.objectTypeId || schema.id,
+        properties: schema.properties || (await client.getProperties(object.internalName)),
+        defaultGroup: [...groups].sort((a, b) => a.displayOrder - b.displayOrder)[0]?.name,
+      });
+    }
+
+    for (const expected of manifest.associations) {
+      const from = await resolve(expected.from);
+      const to = await resolve(expected.to);
+      if (!state.objects.has(expected.from) && from.exists) {
+        const schema = from.schema || (await client.getSchema(from.internalName));
+        state.objects.set(expected.from, { internalName: from.internalName, objectTypeId: schema.objectTypeId || schema.id, properties: [] });
+      }
+      if (!state.objects.has(expected.to) && to.exists) {
+        const schema = to.schema || (await client.getSchema(to.internalName));
+        state.objects.set(expected.to, { internalName: to.internalName, objectTypeId: schema.objectTypeId || schema.id, properties: [] });
+      }
+      if (from.exists && to.exists) {
+        const verification = await client.verifyAssociationPath(from.internalName, to.internalName);
+        state.associations.set(
+          associationKey(expected.from, expected.to),
+          verification.valid ? verification.associationTypes?.results || [] : null
+        );
+      }
+    }
+    reportCacheAge(client);
+
+    const plan = buildPlan(manifest, state);
+    const baseUrl = connection.baseUrl || 'https://api.hubapi.com';
+    // --format picks a plan format; otherwise --output renders the plan like any other result
+    const rendered = options.format || !options.output
+      ? renderPlan(plan, (options.format || (options.json ? 'json' : 'shell')) as PlanFormat, baseUrl)
+      : renderResult(
+          {
+            data: { steps: plan.steps, warnings: plan.warnings, total: plan.steps.length, writeOperationsPerformed: false },
+            rows: plan.steps.map((step) => ({ method: step.method, path: step.path, description: step.description, body: step.body })),
+            columns: ['method', 'path', 'description'],
+            text: () => renderPlan(plan, 'shell', baseUrl),
+          },
+          options.output,
+          options.commandPath ?? null
+        );
+    if (options.out) {
+      fs.writeFileSync(options.out, rendered + (rendered.endsWith('\n') ? '' : '\n'));
+    } else {
+      console.log(rendered);
+    }
+
+    if (!options.quiet) {
+      plan.warnings.forEach((warning) => console.error(chalk.yellow(`⚠ ${warning}`)));
+      console.error(
+        plan.steps.length === 0
+          ? chalk.green('✔ Portal already matches the manifest')
+          : chalk.blue(`${plan.steps.length} API call(s) planned${options.out ? ` in ${options.out}` : ''}`)
+      );
+      console.error(chalk.gray('ℹ No write operations were performed'));
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface CompareOptions extends SnapshotOptions {
+  left: string;
+  right: string;
+}
+
+/**
+ * Compare two portals (profiles or snapshot files) side by side
+ * Exits with BREAKING_CHANGES when association type IDs differ, since hard-coded IDs break on promotion.
+ */
+export async function compareCommand(options: CompareOptions) {
+  try {
+    const left = await resolveSnapshotSource(options.left, options);
+    const right = await resolveSnapshotSource(options.right, options);
+    const comparison = comparePortals(left, right);
+    const critical = comparison.differences.filter((d) => d.critical).length;
+
+    emit(options, {
+      data: {
+        left: options.left,
+        right: options.right,
+        objects: comparison.objects.map((o) => ({
+          left: o.left?.name ?? null,
+          right: o.right?.name ?? null,
+          matchedBy: o.matchedBy,
+        })),
+        differences: comparison.differences,
+        total: comparison.differences.length,
+        associationTypeIdMismatches: critical,
+      },
+      rows: comparison.differences,
+      columns: ['object', 'kind', 'property', 'missingFrom', 'critical', 'message'],
+      text: () => formatPortalComparison(comparison, { left: options.left, right: options.right }, options.quiet),
+    });
+
+    if (critical > 0) {
+      process.exit(EXIT_CODES.BREAKING_CHANGES);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface DocsOptions extends SnapshotOptions {
+  format?: string;
+  objects?: string;
+}
+
+/**
+ * Render the portal model as a data dictionary: one Markdown file or a static HTML site
+ */
+export async function docsCommand(options: DocsOptions) {
+  try {
+    const format = (options.format || 'markdown') as DocsFormat;
+    if (!['markdown', 'html'].includes(format)) {
+      throw new Error(`Invalid format "${options.format}" (expected markdown or html)`);
+    }
+
+    const snapshot = await loadModel(options);
+    const objects = parseList(options.objects);
+    let outDir: string;
+    let files: GeneratedFile[];
+    if (format === 'html') {
+      outDir = options.out || 'hubspot-docs';
+      files = generateHtmlDocs(snapshot, { objects });
+    } else {
+      const out = options.out || 'hubspot-data-dictionary.md';
+      outDir = path.dirname(out);
+      files = generateMarkdownDocs(snapshot, path.basename(out), { objects });
+    }
+
+    writeGeneratedFiles(outDir, files);
+
+    const target = format === 'html' ? path.join(outDir, 'index.html') : path.join(outDir, files[0].path);
+    emit(options, {
+      data: { format, files: files.map((f) => path.join(outDir, f.path)), total: files.length },
+      rows: files.map((f) => ({ path: path.join(outDir, f.path) })),
+      text: () => chalk.green(`✔ Data dictionary for ${snapshot.schemas.length} objects written to ${target}`),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface GraphCommandOptions extends SnapshotOptions {
+  format?: string;
+  focus?: string;
+  depth?: number;
+  hideUnlabeled?: boolean;
+}
+
+/**
+ * Draw the association model as a Mermaid erDiagram or a Graphviz DOT file
+ */
+export async function graphCommand(options: GraphCommandOptions) {
+  try {
+    const format = (options.format || 'mermaid') as GraphFormat;
+    if (!['mermaid', 'dot'].includes(format)) {
+      throw new Error(`Invalid format "${options.format}" (expected mermaid or dot)`);
+    }
+
+    const snapshot = await loadModel({ ...options, associations: true });
+    if (!snapshot.includesAssociationTypes) {
+      throw new Error(`Snapshot ${options.snapshot} has no association types. Capture it without --no-associations.`);
+    }
+    const graph = buildAssociationGraph(snapshot, {
+      focus: options.focus,
+      depth: options.depth,
+      hideUnlabeled: options.hideUnlabeled,
+    });
+    const diagram = renderGraph(graph, format);
+
+    if (options.out) {
+      fs.mkdirSync(path.dirname(path.resolve(options.out)), { recursive: true });
+      fs.writeFileSync(options.out, diagram);
+      emit(options, {
+        data: { file: options.out, format, nodes: graph.nodes.length, edges: graph.edges.length },
+        text: () => chalk.green(`✔ Graph of ${graph.nodes.length} objects and ${graph.edges.length} association types written to ${options.out}`),
+      });
+      return;
+    }
+
+    emit(options, {
+      data: { format, nodes: graph.nodes, edges: graph.edges },
+      rows: graph.edges,
+      columns: ['from', 'to', 'category', 'label', 'typeIds', 'inverseTypeIds'],
+      text: () => diagram.trimEnd(),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * Association types for every ordered pair of objects, as one grid
+ */
+export async function matrixCommand(options: SnapshotOptions) {
+  try {
+    const snapshot = await loadModel({ ...options, associations: true });
+    if (!snapshot.includesAssociationTypes) {
+      throw new Error(`Snapshot ${options.snapshot} has no association types. Capture it without --no-associations.`);
+    }
+    const matrix = buildAssociationMatrix(snapshot);
+
+    emit(options, {
+      data: {
+        objects: matrix.objects,
+        cells: matrix.cells,
+        pairs: matrix.cells.length,
+        definedPairs: matrix.cells.filter((cell) => cell.defined).length,
+      },
+      rows: matrix.cells,
+      columns: ['from', 'to', 'defined', 'total', 'labeled', 'hubspotDefined', 'userDefined', 'typeIds', 'labels'],
+      text: () => formatAssociationMatrix(matrix, options.quiet),
+    });
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface PathOptions extends CommandOptions {
+  maxDepth?: number;
+  limit?: number;
+  concurrency?: number;
+}
+
+/**
+ * Find the shortest association paths between two objects that have no direct association
+ */
+export async function pathCommand(objectA: string, objectB: string, options: PathOptions) {
+  try {
+    const client = connect(options);
+    const schemas = await client.getSchemas();
+    const from = await resolveObject(client, schemas, objectA);
+    const to = await resolveObject(client, schemas, objectB);
+    const maxDepth = options.maxDepth ?? 3;
+
+    const missing = [from, to].filter((object) => !object.exists).map((object) => object.input);
+    if (missing.length > 0) {
+      emit(options, {
+        data: { from: from.internalName, to: to.internalName, missingObjects: missing, paths: [], total: 0 },
+        text: () => chalk.red(`✖ Object(s) not found: ${missing.join(', ')}. Run \`hubspot-crm schemas\` to see valid names.`),
+      });
+      process.exit(EXIT_CODES.OBJECT_NOT_FOUND);
+    }
+
+    if (!options.quiet && !options.json) {
+      console.error(chalk.blue('Fetching association types for every object pair...'));
+    }
+    // Standard objects are not always listed by /crm/v3/schemas
+    const objects = [...new Set([...schemas.map((s) => s.name), ...STANDARD_OBJECTS, from.internalName, to.internalName])];
+    const edges = await collectAssociationEdges(client, objects, options.concurrency ?? 4);
+    reportCacheAge(client);
+
+    const paths = findAssociationPaths(edges, from.internalName, to.internalName, { maxDepth, limit: options.limit });
+
+    emit(options, {
+      data: {
+        from: from.internalName,
+        to: to.internalName,
+        maxDepth,
+        paths,
+        total: paths.length,
+        writeOperationsPerformed: false,
+      },
+      rows: paths.map((path) => ({
+        objects: path.objects.join(' → '),
+        hops: path.hops.length,
+        shortest: path.shortest,
+        typeIds: path.hops.map((hop) => hop.types.map((type) => type.associationTypeId).join(',')).join(' → '),
+        apiCalls: path.hops.map((hop) => hop.apiCall),
+      })),
+      text: () => formatAssociationPaths(from.internalName, to.internalName, paths, maxDepth, options.quiet),
+    });
+
+    if (paths.length === 0) {
+      process.exit(EXIT_CODES.ASSOCIATION_INVALID);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+interface DiagnoseOptions extends CommandOptions {
+  body?: string;
+  response?: string;
+  status?: number;
+  file?: string;
+}
+
+/**
+ * Explain a failing API request: check its objects, record IDs, association types and
+ * properties against the portal, then print the root cause and a corrected request
+ */
+export async function diagnoseCommand(method: string | undefined, requestPath: string | undefined, options: DiagnoseOptions) {
+  try {
+    const request = readFailingRequest(method, requestPath, options);
+    const endpoint = describeEndpoint(request.path);
+    const client = connect(options);
+    const schemas = await client.getSchemas();
+
+    const state: DiagnoseState = { objects: new Map(), associations: new Map() };
+    for (const index of endpoint.objectSegments) {
+      const input = endpoint.segments[index];
+      if (input !== undefined && !state.objects.has(input)) {
+        const resolved = await resolveObject(client, schemas, input);
+        state.objects.set(input, { internalName: resolved.exists ? resolved.internalName : null });
+      }
+    }
+
+    const [from, to] = endpoint.objectSegments.map((index) => state.objects.get(endpoint.segments[index])?.internalName ?? null);
+    if (from && propertyReferences(request, endpoint).length > 0) {
+      state.objects.get(endpoint.segments[endpoint.objectSegments[0]])!.properties = (await readOptional(() => client.getProperties(from))) ?? undefined;
+    }
+    if (from && to && endpoint.kind.startsWith('association-')) {
+      for (const [a, b] of [[from, to], [to, from]]) {
+        const result = await client.verifyAssociationPath(a, b);
+        state.associations.set(associationKey(a, b), result.valid ? result.associationTypes?.results || [] : []);
+      }
+    }
+    reportCacheAge(client);
+
+    const diagnosis = diagnoseRequest(request, state);
+    const errors = diagnosis.findings.filter((finding) => finding.severity === 'error');
+    emit(options, {
+      data: {
+        request,
+        ...diagnosis,
+        valid: errors.length === 0,
+        writeOperationsPerformed: false,
+      },
+      rows: diagnosis.findings,
+      columns: ['severity', 'check', 'location', 'message'],
+      text: () => formatDiagnosis(request, diagnosis, options.quiet),
+    });
+
+    if ([...state.objects.values()].some((object) => object.internalName === null)) {
+      process.exit(EXIT_CODES.OBJECT_NOT_FOUND);
+    }
+    if (errors.length > 0) {
+      process.exit(EXIT_CODES.ASSOCIATION_INVALID);
+    }
+  } catch (error: any) {
+    handleCommandError(error, options);
+  }
+}
+
+/**
+ * The failing request from the arguments, --file (- for stdin) or piped stdin
+ * A lone path argument is accepted too; the method is then POST with a body and GET without.
+ */
+function readFailingRequest(method: string | undefined, requestPath: string | undefined, options: DiagnoseOptions): FailingRequest {
+  let request: FailingRequest;
+  if (method && !requestPath && /^(\/|https?:)/.test(method)) {
+    request = { method: options.body ? 'POST' : 'GET', path: method };
+  } else if (method && requestPath) {
+    request = { method: method.toUpperCase(), path: requestPath };
+  } else if (options.file || !process.stdin.isTTY) {
+    const file = options.file && options.file !== '-' ? options.file : 0;
+    request = parseFailingRequest(fs.readFileSync(file, 'utf8'));
+  } else {
+    throw new Error('Pass the request as <method> <path>, with --file <file>, or on stdin');
+  }
+
+  if (options.body !== undefined) {
+    request.body = parseJson(options.body, '--body');
+  }
+  if (options.response !== undefined) {
+    request.response = parseJson(options.response, '--response');
+  }
+  if (options.status !== undefined) {
+    request.status = options.status;
   }
+  return request;
 }
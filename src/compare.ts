@@ -0,0 +1,263 @@
+/**
+ * Side-by-side comparison of two portals (e.g. production and a sandbox)
+ */
+
+import { HubSpotSchema, HubSpotProperty, AssociationDefinition } from './types';
+import { SchemaSnapshot } from './snapshot';
+
+export interface ObjectPairing {
+  left?: HubSpotSchema;
+  right?: HubSpotSchema;
+  /** How the objects were lined up; null when only one portal has the object */
+  matchedBy: 'name' | 'label' | null;
+}
+
+export type PortalDifferenceKind =
+  | 'object-missing'
+  | 'property-missing'
+  | 'property-type-differs'
+  | 'property-field-type-differs'
+  | 'option-missing'
+  | 'association-missing'
+  | 'association-type-id-differs';
+
+export interface PortalDifference {
+  kind: PortalDifferenceKind;
+  /** Object as named in the left portal (or the right one when the left lacks it) */
+  object: string;
+  property?: string;
+  /** Which portal lacks the item, for the *-missing kinds */
+  missingFrom?: 'left' | 'right';
+  /** Breaks code that hard-codes IDs from one portal */
+  critical: boolean;
+  message: string;
+  left?: unknown;
+  right?: unknown;
+}
+
+export interface PortalComparison {
+  objects: ObjectPairing[];
+  differences: PortalDifference[];
+}
+
+/**
+ * Internal name without the `p<portalId>_` prefix custom objects carry
+ */
+export function unprefixedName(name: string): string {
+  return name.replace(/^p\d+_/, '');
+}
+
+/**
+ * Line up objects by unprefixed name, then by singular label
+ */
+export function pairObjects(left: HubSpotSchema[], right: HubSpotSchema[]): ObjectPairing[] {
+  const pairs: ObjectPairing[] = [];
+  const remaining = new Set(right);
+  const label = (schema: HubSpotSchema) => schema.labels.singular.trim().toLowerCase();
+
+  for (const l of left) {
+    let matchedBy: ObjectPairing['matchedBy'] = 'name';
+    let r = [...remaining].find((s) => unprefixedName(s.name) === unprefixedName(l.name));
+    if (!r) {
+      matchedBy = 'label';
+      r = [...remaining].find((s) => label(s) === label(l));
+    }
+    if (r) {
+      remaining.delete(r);
+      pairs.push({ left: l, right: r, matchedBy });
+    } else {
+      pairs.push({ left: l, matchedBy: null });
+    }
+  }
+
+  remaining.forEach((r) => pairs.push({ right: r, matchedBy: null }));
+  return pairs;
+}
+
+/**
+ * Compare objects, properties, options and association types of two portal snapshots
+ */
+export function comparePortals(left: SchemaSnapshot, right: SchemaSnapshot): PortalComparison {
+  const objects = pairObjects(left.schemas, right.schemas);
+  const differences: PortalDifference[] = [];
+
+  objects.forEach(({ left: l, right: r }) => {
+    if (!l || !r) {
+      const present = (l || r)!;
+      const missingFrom = l ? 'right' : 'left';
+      differences.push({
+        kind: 'object-missing',
+        object: present.name,
+        missingFrom,
+        critical: false,
+        message: `Object ${present.name} ("${present.labels.singular}") only exists in the ${missingFrom === 'right' ? 'left' : 'right'} portal`,
+      });
+      return;
+    }
+    compareProperties(l, r, differences);
+  });
+
+  if (left.includesAssociationTypes && right.includesAssociationTypes) {
+    compareAssociationTypes(left, right, objects, differences);
+  }
+
+  return { objects, differences };
+}
+
+function compareProperties(l: HubSpotSchema, r: HubSpotSchema, differences: PortalDifference[]): void {
+  const object = l.name;
+  const leftProps = new Map((l.properties || []).map((p) => [p.name, p]));
+  const rightProps = new Map((r.properties || []).map((p) => [p.name, p]));
+  const names = [...new Set([...leftProps.keys(), ...rightProps.keys()])].sort();
+
+  names.forEach((name) => {
+    const a = leftProps.get(name);
+    const b = rightProps.get(name);
+    if (!a || !b) {
+      differences.push({
+        kind: 'property-missing',
+        object,
+        property: name,
+        missingFrom: a ? 'right' : 'left',
+        critical: false,
+        message: `Property ${name} is missing in the ${a ? 'right' : 'left'} portal`,
+      });
+      return;
+    }
+    compareProperty(object, a, b, differences);
+  });
+}
+
+function compareProperty(object: string, a: HubSpotProperty, b: HubSpotProperty, differences: PortalDifference[]): void {
+  const property = a.name;
+  if (a.type !== b.type) {
+    differences.push({
+      kind: 'property-type-differs',
+      object,
+      property,
+      critical: false,
+      message: `Property ${property} is ${a.type} on the left, ${b.type} on the right`,
+      left: a.type,
+      right: b.type,
+    });
+  }
+  if (a.fieldType !== b.fieldType) {
+    differences.push({
+      kind: 'property-field-type-differs',
+      object,
+      property,
+      critical: false,
+      message: `Property ${property} fieldType is ${a.fieldType} on the left, ${b.fieldType} on the right`,
+      left: a.fieldType,
+      right: b.fieldType,
+    });
+  }
+
+  const leftValues = new Set((a.options || []).map((o) => o.value));
+  const rightValues = new Set((b.options || []).map((o) => o.value));
+  const onlyLeft = [...leftValues].filter((v) => !rightValues.has(v));
+  const onlyRight = [...rightValues].filter((v) => !leftValues.has(v));
+  if (onlyLeft.length > 0) {
+    differences.push({
+      kind: 'option-missing',
+      object,
+      property,
+      missingFrom: 'right',
+      critical: false,
+      message: `Options ${onlyLeft.map((v) => `"${v}"`).join(', ')} of ${property} are missing in the right portal`,
+      left: onlyLeft,
+    });
+  }
+  if (onlyRight.length > 0) {
+    differences.push({
+      kind: 'option-missing',
+      object,
+      property,
+      missingFrom: 'left',
+      critical: false,
+      message: `Options ${onlyRight.map((v) => `"${v}"`).join(', ')} of ${property} are missing in the left portal`,
+      right: onlyRight,
+    });
+  }
+}
+
+/**
+ * Association types are lined up by category and label, so differing IDs show up as such
+ * rather than as one type removed and another added
+ */
+function compareAssociationTypes(
+  left: SchemaSnapshot,
+  right: SchemaSnapshot,
+  objects: ObjectPairing[],
+  differences: PortalDifference[]
+): void {
+  // Right-portal object name -> left-portal object name
+  const toLeftName = new Map<string, string>();
+  objects.forEach(({ left: l, right: r }) => {
+    if (l && r) {
+      toLeftName.set(r.name, l.name);
+    }
+  });
+  const paired = new Set(toLeftName.values());
+
+  const pairKey = (from: string, to: string) => `${from}|${to}`;
+  const leftPairs = new Map(
+    left.associationTypes
+      .filter((pair) => paired.has(pair.fromObjectType) && paired.has(pair.toObjectType))
+      .map((pair) => [pairKey(pair.fromObjectType, pair.toObjectType), pair.types])
+  );
+  const rightPairs = new Map(
+    right.associationTypes
+      .filter((pair) => toLeftName.has(pair.fromObjectType) && toLeftName.has(pair.toObjectType))
+      .map((pair) => [pairKey(toLeftName.get(pair.fromObjectType)!, toLeftName.get(pair.toObjectType)!), pair.types])
+  );
+
+  [...new Set([...leftPairs.keys(), ...rightPairs.keys()])].sort().forEach((key) => {
+    const [from, to] = key.split('|');
+    const leftTypes = groupByLabel(leftPairs.get(key) || []);
+    const rightTypes = groupByLabel(rightPairs.get(key) || []);
+
+    [...new Set([...leftTypes.keys(), ...rightTypes.keys()])].sort().forEach((typeKey) => {
+      const a = leftTypes.get(typeKey);
+      const b = rightTypes.get(typeKey);
+      const describe = (t: AssociationDefinition) => `${t.associationCategory} ${t.name ? `"${t.name}"` : '(unlabeled)'}`;
+
+      if (!a || !b) {
+        const present = (a || b)![0];
+        differences.push({
+          kind: 'association-missing',
+          object: from,
+          missingFrom: a ? 'right' : 'left',
+          critical: false,
+          message: `Association ${describe(present)} from ${from} to ${to} is missing in the ${a ? 'right' : 'left'} portal`,
+          ...(a ? { left: a.map((t) => t.associationTypeId) } : { right: b!.map((t) => t.associationTypeId) }),
+        });
+        return;
+      }
+
+      const leftIds = a.map((t) => t.associationTypeId);
+      const rightIds = b.map((t) => t.associationTypeId);
+      if (leftIds.join(',') !== rightIds.join(',')) {
+        differences.push({
+          kind: 'association-type-id-differs',
+          object: from,
+          critical: true,
+          message: `Association ${describe(a[0])} from ${from} to ${to} has typeId ${leftIds.join(', ')} on the left but ${rightIds.join(', ')} on the right`,
+          left: leftIds,
+          right: rightIds,
+        });
+      }
+    });
+  });
+}
+
+function groupByLabel(types: AssociationDefinition[]): Map<string, AssociationDefinition[]> {
+  const groups = new Map<string, AssociationDefinition[]>();
+  [...types]
+    .sort((a, b) => a.associationTypeId - b.associationTypeId)
+    .forEach((type) => {
+      const key = `${type.associationCategory}|${(type.name || '').toLowerCase()}`;
+      groups.set(key, [...(groups.get(key) || []), type]);
+    });
+  return groups;
+}
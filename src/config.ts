@@ -0,0 +1,156 @@
+/**
+ * Named portal profiles and access token resolution
+ *
+ * This is the only module that reads tokens from the environment. Commands
+ * ask for a resolved connection instead of touching process.env themselves.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+export const OUTPUT_FORMATS = ['text', 'table', 'json', 'ndjson', 'yaml', 'csv'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface Profile {
+  /** Access token stored in the config file */
+  token?: string;
+  /** Name of an environment variable holding the access token */
+  tokenEnv?: string;
+  portalId?: string;
+  baseUrl?: string;
+  /** Default output format for commands run with this profile */
+  output?: OutputFormat;
+}
+
+export interface InspectorConfig {
+  currentProfile?: string;
+  profiles: Record<string, Profile>;
+}
+
+export interface ResolvedConnection {
+  accessToken: string;
+  /** Profile name, or null when falling back to HUBSPOT_ACCESS_TOKEN */
+  profileName: string | null;
+  /** Where the token came from, for display (never the token itself) */
+  tokenSource: string;
+  portalId?: string;
+  baseUrl?: string;
+  output?: OutputFormat;
+}
+
+/**
+ * Raised when the configuration is invalid or no token can be resolved
+ */
+export class ConfigError extends Error {
+  constructor(message: string, readonly hint?: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Location of the config file, honoring HUBSPOT_CRM_CONFIG and XDG_CONFIG_HOME
+ */
+export function configPath(): string {
+  if (process.env.HUBSPOT_CRM_CONFIG) {
+    return process.env.HUBSPOT_CRM_CONFIG;
+  }
+  const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(base, 'hubspot-schema-inspector', 'config.json');
+}
+
+/**
+ * Load the config file, returning an empty config when it does not exist
+ */
+export function loadConfig(): InspectorConfig {
+  const file = configPath();
+  let raw: string;
+  try {
+    raw = fs.readFileSync(file, 'utf8');
+  } catch {
+    return { profiles: {} };
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return { currentProfile: parsed.currentProfile, profiles: parsed.profiles || {} };
+  } catch (error: any) {
+    throw new ConfigError(`Invalid config file ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Write the config file (owner read/write only, since it may contain tokens)
+ */
+export function saveConfig(config: InspectorConfig): void {
+  const file = configPath();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(config, null, 2) + '\n', { mode: 0o600 });
+}
+
+/**
+ * Name of the active profile: --profile, then HUBSPOT_PROFILE, then the config's current profile
+ */
+export function activeProfileName(config: InspectorConfig, requested?: string): string | null {
+  return requested || process.env.HUBSPOT_PROFILE || config.currentProfile || null;
+}
+
+/**
+ * Resolve the access token and portal settings for a command
+ * Without any profile, HUBSPOT_ACCESS_TOKEN is used as before.
+ */
+export function resolveConnection(requestedProfile?: string): ResolvedConnection {
+  const config = loadConfig();
+  const profileName = activeProfileName(config, requestedProfile);
+
+  if (!profileName) {
+    const accessToken = process.env.HUBSPOT_ACCESS_TOKEN;
+    if (!accessToken) {
+      throw new ConfigError(
+        'HUBSPOT_ACCESS_TOKEN environment variable is required',
+        'Set it with: export HUBSPOT_ACCESS_TOKEN=your_token_here, or add a profile with: hubspot-crm profiles add <name>'
+      );
+    }
+    return { accessToken, profileName: null, tokenSource: 'env:HUBSPOT_ACCESS_TOKEN' };
+  }
+
+  const profile = config.profiles[profileName];
+  if (!profile) {
+    throw new ConfigError(
+      `Profile "${profileName}" not found in ${configPath()}`,
+      'List profiles with: hubspot-crm profiles list'
+    );
+  }
+
+  const { token, tokenSource } = profileToken(profile);
+  if (!token) {
+    throw new ConfigError(
+      `Profile "${profileName}" has no access token (${tokenSource})`,
+      profile.tokenEnv ? `Set it with: export ${profile.tokenEnv}=your_token_here` : undefined
+    );
+  }
+
+  return {
+    accessToken: token,
+    profileName,
+    tokenSource,
+    portalId: profile.portalId,
+    baseUrl: profile.baseUrl,
+    output: profile.output,
+  };
+}
+
+/**
+ * Read a profile's token, preferring its environment variable over a stored token
+ */
+export function profileToken(profile: Profile): { token?: string; tokenSource: string } {
+  if (profile.tokenEnv) {
+    return { token: process.env[profile.tokenEnv], tokenSource: `env:${profile.tokenEnv}` };
+  }
+  if (profile.token) {
+    return { token: profile.token, tokenSource: 'config' };
+  }
+  return { tokenSource: 'none' };
+}
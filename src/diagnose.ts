@@ -0,0 +1,639 @@
+/**
+ * Diagnose a failing HubSpot API request: object names, record IDs, association types and property names
+ */
+
+import { AssociationDefinition, HubSpotProperty } from './types';
+import { HubSpotErrorBody } from './errors';
+import { associationKey } from './plan';
+import { labelsFromDefinitions, pairAssociationLabels } from './association-labels';
+import { isReadOnlyProperty } from './codegen';
+import { lookupErrors } from './error-catalog';
+
+export interface FailingRequest {
+  method: string;
+  /** Path with optional query string; a full URL is reduced to its path */
+  path: string;
+  body?: unknown;
+  /** HTTP status of the failed call, when known */
+  status?: number;
+  /** Error body HubSpot returned, when known */
+  response?: HubSpotErrorBody;
+}
+
+export type EndpointKind =
+  | 'association-batch'
+  | 'association-definitions'
+  | 'association-record'
+  | 'association-v3'
+  | 'object-batch'
+  | 'object-search'
+  | 'object-collection'
+  | 'object-record'
+  | 'property'
+  | 'schema'
+  | 'unknown';
+
+export interface RequestEndpoint {
+  kind: EndpointKind;
+  /** Decoded path segments, without base URL or query string */
+  segments: string[];
+  query: URLSearchParams;
+  /** Indices of object type segments; the first is the from object of association endpoints */
+  objectSegments: number[];
+  recordIdSegments: number[];
+  /** Action after the object segments, e.g. "batch/create" */
+  action: string | null;
+}
+
+export interface DiagnosisFinding {
+  check: 'method' | 'object' | 'record-id' | 'association-type' | 'category' | 'property' | 'endpoint';
+  severity: 'error' | 'warning';
+  message: string;
+  /** Where in the request, e.g. "path" or "inputs[0].types[0].associationTypeId" */
+  location: string;
+}
+
+export interface Diagnosis {
+  endpoint: EndpointKind;
+  findings: DiagnosisFinding[];
+  rootCause: string;
+  /** The request with every derivable fix applied; null when nothing could be fixed */
+  correctedRequest: { method: string; path: string; body?: unknown } | null;
+  /** Another request worth trying, separate from the fixes; null when there is none */
+  suggestion: { message: string; request: { method: string; path: string; body?: unknown } } | null;
+}
+
+export interface DiagnoseObjectState {
+  /** API name, or null when the object does not exist */
+  internalName: string | null;
+  /** Properties, when the request references any */
+  properties?: HubSpotProperty[];
+}
+
+export interface DiagnoseState {
+  /** Keyed by the object as written in the request */
+  objects: Map<string, DiagnoseObjectState>;
+  /** Association types keyed by `associationKey(from, to)` of API names; empty when the pair has none */
+  associations: Map<string, AssociationDefinition[]>;
+}
+
+export interface PropertyReference {
+  name: string;
+  location: string;
+  write: boolean;
+}
+
+const ASSOCIATION_CATEGORIES = ['HUBSPOT_DEFINED', 'USER_DEFINED', 'INTEGRATOR_DEFINED'];
+
+/** Status implied by HubSpot's error category, for responses pasted without one */
+const CATEGORY_STATUS: Record<string, number> = {
+  VALIDATION_ERROR: 400,
+  INVALID_AUTHENTICATION: 401,
+  EXPIRED_AUTHENTICATION: 401,
+  MISSING_SCOPES: 403,
+  OBJECT_NOT_FOUND: 404,
+  CONFLICT: 409,
+  RATE_LIMITS: 429,
+};
+
+/**
+ * Parse a failing request from JSON ({ method, path or url, body, status, response }) or
+ * from .http-style text: a request line, optional headers, then the JSON body
+ */
+export function parseFailingRequest(text: string): FailingRequest {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    const parsed = parseJson(trimmed, 'request');
+    const path = parsed.path ?? parsed.url;
+    if (typeof parsed.method !== 'string' || typeof path !== 'string') {
+      throw new Error('Request JSON needs "method" and "path" (or "url")');
+    }
+    return {
+      method: parsed.method.toUpperCase(),
+      path,
+      body: parsed.body,
+      status: parsed.status !== undefined ? Number(parsed.status) : undefined,
+      response: parsed.response,
+    };
+  }
+
+  const [requestLine, ...rest] = trimmed.split(/\r?\n/);
+  const match = requestLine.match(/^([A-Za-z]+)\s+(\S+)/);
+  if (!match) {
+    throw new Error('Expected a JSON request or a request line such as "POST /crm/v4/associations/contacts/companies/batch/create"');
+  }
+  const bodyStart = rest.findIndex((line) => /^\s*[[{]/.test(line));
+  return {
+    method: match[1].toUpperCase(),
+    path: match[2],
+    body: bodyStart >= 0 ? parseJson(rest.slice(bodyStart).join('\n'), 'body') : undefined,
+  };
+}
+
+/**
+ * Parse JSON, naming the part of the request that failed to parse
+ */
+export function parseJson(text: string, what: string): any {
+  try {
+    return JSON.parse(text);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON in ${what}: ${error.message}`);
+  }
+}
+
+/**
+ * Identify the endpoint and where its object types and record IDs sit in the path
+ */
+export function describeEndpoint(path: string): RequestEndpoint {
+  const url = new URL(path, 'https://api.hubapi.com');
+  const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+  const endpoint = (kind: EndpointKind, objectSegments: number[], recordIdSegments: number[] = [], action: string | null = null): RequestEndpoint => ({
+    kind,
+    segments,
+    query: url.searchParams,
+    objectSegments,
+    recordIdSegments,
+    action,
+  });
+
+  const [api, version, resource, ...rest] = segments;
+  if (api !== 'crm' || rest.length === 0) {
+    return endpoint('unknown', []);
+  }
+
+  if (version === 'v4' && resource === 'associations' && rest.length >= 3) {
+    if (rest[2] === 'batch') {
+      return endpoint('association-batch', [3, 4], [], rest.slice(2).join('/'));
+    }
+    return endpoint('association-definitions', [3, 4], [], rest.slice(2).join('/'));
+  }
+  if (version === 'v4' && resource === 'objects' && rest[2] === 'associations' && rest.length >= 4) {
+    // .../associations/default/{toType}/{toId} or .../associations/{toType}[/{toId}]
+    if (rest[3] === 'default' && rest.length === 6) {
+      return endpoint('association-record', [3, 7], [4, 8], 'default');
+    }
+    return endpoint('association-record', [3, 6], rest.length > 4 ? [4, 7] : [4]);
+  }
+  if (version === 'v3' && resource === 'associations' && rest.length >= 3) {
+    return endpoint('association-v3', [3, 4], [], rest.slice(2).join('/'));
+  }
+  if (resource === 'objects') {
+    if (rest.length === 1) {
+      return endpoint('object-collection', [3]);
+    }
+    if (rest[1] === 'batch' && rest.length === 3) {
+      return endpoint('object-batch', [3], [], rest.slice(1).join('/'));
+    }
+    if (rest[1] === 'search' && rest.length === 2) {
+      return endpoint('object-search', [3], [], 'search');
+    }
+    if (rest.length === 2) {
+      return endpoint('object-record', [3], [4]);
+    }
+  }
+  if (resource === 'properties' && rest.length <= 2) {
+    return endpoint('property', [3]);
+  }
+  if (resource === 'schemas' && rest.length === 1) {
+    return endpoint('schema', [3]);
+  }
+  return endpoint('unknown', []);
+}
+
+/**
+ * Property names the request reads or writes, with where they appear
+ */
+export function propertyReferences(request: FailingRequest, endpoint: RequestEndpoint): PropertyReference[] {
+  const body: any = request.body;
+  const references: PropertyReference[] = [];
+  const add = (name: unknown, location: string, write: boolean) => {
+    if (typeof name === 'string' && name !== '') {
+      references.push({ name, location, write });
+    }
+  };
+  const addKeys = (properties: unknown, location: string) => {
+    if (properties && typeof properties === 'object' && !Array.isArray(properties)) {
+      Object.keys(properties).forEach((name) => add(name, `${location}.${name}`, true));
+    }
+  };
+  const addList = (names: unknown, location: string) => {
+    if (Array.isArray(names)) {
+      names.forEach((name, i) => add(name, `${location}[${i}]`, false));
+    }
+  };
+  const inputs: any[] = Array.isArray(body?.inputs) ? body.inputs : [];
+
+  switch (endpoint.kind) {
+    case 'object-collection':
+    case 'object-record':
+      addKeys(body?.properties, 'properties');
+      (endpoint.query.get('properties') || '').split(',').forEach((name) => add(name.trim(), 'query.properties', false));
+      break;
+    case 'object-batch':
+      inputs.forEach((input, i) => addKeys(input?.properties, `inputs[${i}].properties`));
+      addList(body?.properties, 'properties');
+      addList(body?.propertiesWithHistory, 'propertiesWithHistory');
+      add(body?.idProperty, 'idProperty', false);
+      break;
+    case 'object-search':
+      addList(body?.properties, 'properties');
+      (Array.isArray(body?.filterGroups) ? body.filterGroups : []).forEach((group: any, g: number) => {
+        (Array.isArray(group?.filters) ? group.filters : []).forEach((filter: any, f: number) =>
+          add(filter?.propertyName, `filterGroups[${g}].filters[${f}].propertyName`, false)
+        );
+      });
+      (Array.isArray(body?.sorts) ? body.sorts : []).forEach((sort: any, i: number) =>
+        add(typeof sort === 'string' ? sort : sort?.propertyName, `sorts[${i}]`, false)
+      );
+      break;
+    case 'property':
+      add(endpoint.segments[4], 'path', false);
+      break;
+  }
+  return references;
+}
+
+/**
+ * Check a request against the portal's objects, association types and properties
+ * Every problem becomes a finding; fixes that can be derived are applied to the corrected request.
+ */
+export function diagnoseRequest(request: FailingRequest, state: DiagnoseState): Diagnosis {
+  const endpoint = describeEndpoint(request.path);
+  const findings: DiagnosisFinding[] = [];
+  const segments = [...endpoint.segments];
+  const corrected = { method: request.method.toUpperCase(), body: clone(request.body) };
+  let changed = false;
+  const fail = (check: DiagnosisFinding['check'], location: string, message: string, severity: DiagnosisFinding['severity'] = 'error') =>
+    findings.push({ check, severity, message, location });
+
+  if (endpoint.kind === 'unknown') {
+    fail('endpoint', 'path', `Not a CRM object, property or association endpoint: ${endpoint.segments.join('/') || request.path}`, 'warning');
+  }
+
+  // HTTP method
+  const allowed = allowedMethods(endpoint);
+  if (allowed.length > 0 && !allowed.includes(corrected.method)) {
+    fail('method', 'method', `${corrected.method} is not supported here; use ${allowed.join(' or ')}`);
+    corrected.method = allowed[0];
+    changed = true;
+  }
+
+  // Object types in the path
+  const names = endpoint.objectSegments.map((index) => {
+    const input = endpoint.segments[index];
+    const object = state.objects.get(input);
+    if (!object) {
+      return null;
+    }
+    if (object.internalName === null) {
+      fail('object', 'path', `Object type "${input}" does not exist. Run \`hubspot-crm schemas\` to see valid names.`);
+      return null;
+    }
+    if (object.internalName !== input) {
+      fail('object', 'path', `"${input}" is not an API object name; use "${object.internalName}"`);
+      segments[index] = object.internalName;
+      changed = true;
+    }
+    return object.internalName;
+  });
+
+  // Record IDs in the path and body
+  endpoint.recordIdSegments.forEach((index) => {
+    if (endpoint.segments[index] !== undefined) {
+      checkRecordId(endpoint.segments[index], 'path', fail);
+    }
+  });
+  recordIdsInBody(endpoint, request.body).forEach(({ value, location }) => checkRecordId(value, location, fail));
+
+  if (endpoint.kind === 'association-v3') {
+    fail('endpoint', 'path', 'v3 association endpoints take a type name instead of a type ID and category; use the v4 endpoints', 'warning');
+  }
+
+  // Association types, checked against the definitions in the request's direction
+  const [from, to] = names;
+  const forward = from && to ? state.associations.get(associationKey(from, to)) : undefined;
+  if (forward && from && to) {
+    if (forward.length === 0) {
+      fail('association-type', 'path', `No association is defined from ${from} to ${to}. Run \`hubspot-crm path ${from} ${to}\` for indirect routes.`);
+    } else {
+      const reverse = state.associations.get(associationKey(to, from)) || [];
+      changed = checkAssociationTypes(endpoint, corrected, from, to, forward, reverse, fail) || changed;
+    }
+  }
+
+  // Property names
+  const objectName = endpoint.objectSegments.length === 1 ? endpoint.segments[endpoint.objectSegments[0]] : null;
+  const properties = objectName ? state.objects.get(objectName)?.properties : undefined;
+  if (properties && names[0]) {
+    propertyReferences(request, endpoint).forEach((reference) => {
+      const property = properties.find((p) => p.name === reference.name);
+      if (property) {
+        if (reference.write && isReadOnlyProperty(property)) {
+          fail('property', reference.location, `Property "${reference.name}" on ${names[0]} is read-only; HubSpot will not accept a value for it`, 'warning');
+        }
+        return;
+      }
+      const suggestion = suggestProperty(properties, reference.name);
+      fail(
+        'property',
+        reference.location,
+        `Property "${reference.name}" does not exist on ${names[0]}${suggestion ? `; did you mean "${suggestion.name}"?` : ''}`
+      );
+      if (suggestion && renameProperty(endpoint, corrected, segments, reference, suggestion.name)) {
+        changed = true;
+      }
+    });
+  }
+
+  const errors = findings.filter((finding) => finding.severity === 'error');
+  const rootCause = errors.length > 0 ? errors[0].message : responseCause(request, endpoint);
+  const correctedRequest = changed ? { method: corrected.method, path: joinPath(segments, endpoint.query), body: corrected.body } : null;
+
+  // A valid single-record PUT that failed with a 5xx can be retried as the equivalent batch call
+  const status = responseStatus(request);
+  const suggestion =
+    errors.length === 0 && status !== null && status >= 500 && endpoint.kind === 'association-record' && corrected.method === 'PUT'
+      ? { message: 'Try the equivalent batch call:', request: batchCreateFor(segments, endpoint, corrected.body) }
+      : null;
+
+  return { endpoint: endpoint.kind, findings, rootCause, correctedRequest, suggestion };
+}
+
+function allowedMethods(endpoint: RequestEndpoint): string[] {
+  switch (endpoint.kind) {
+    case 'association-batch':
+    case 'association-v3':
+    case 'object-batch':
+    case 'object-search':
+      return ['POST'];
+    case 'association-record':
+      return endpoint.recordIdSegments.length > 1 ? ['PUT', 'DELETE'] : ['GET'];
+    case 'object-collection':
+      return ['GET', 'POST'];
+    case 'object-record':
+      return ['GET', 'PATCH', 'DELETE'];
+    case 'schema':
+      return ['GET', 'PATCH', 'DELETE'];
+    default:
+      return [];
+  }
+}
+
+function checkRecordId(value: unknown, location: string, fail: (check: 'record-id', location: string, message: string) => void): void {
+  const id = String(value);
+  if (/^\d+$/.test(id)) {
+    return;
+  }
+  const hint = id.includes('@')
+    ? ' Look the record up by email with the search endpoint, or use idProperty on batch endpoints.'
+    : /^<.*>$|^\{.*\}$/.test(id)
+      ? ' Replace the placeholder with a real record ID.'
+      : '';
+  fail('record-id', location, `"${id}" is not a HubSpot record ID (record IDs are numeric).${hint}`);
+}
+
+/**
+ * Record IDs in association and batch bodies; batch bodies with idProperty use other unique values
+ */
+function recordIdsInBody(endpoint: RequestEndpoint, body: any): Array<{ value: unknown; location: string }> {
+  const inputs: any[] = Array.isArray(body?.inputs) ? body.inputs : [];
+  const ids: Array<{ value: unknown; location: string }> = [];
+  const add = (value: unknown, location: string) => {
+    if (value !== undefined && value !== null) {
+      ids.push({ value, location });
+    }
+  };
+
+  if (endpoint.kind === 'association-batch' || endpoint.kind === 'association-v3') {
+    inputs.forEach((input, i) => {
+      add(input?.id, `inputs[${i}].id`);
+      add(input?.from?.id, `inputs[${i}].from.id`);
+      if (Array.isArray(input?.to)) {
+        input.to.forEach((target: any, j: number) => add(target?.id, `inputs[${i}].to[${j}].id`));
+      } else {
+        add(input?.to?.id, `inputs[${i}].to.id`);
+      }
+    });
+  } else if (endpoint.kind === 'object-batch' && !body?.idProperty && endpoint.action !== 'batch/create') {
+    inputs.forEach((input, i) => add(input?.id, `inputs[${i}].id`));
+  }
+  return ids;
+}
+
+/**
+ * Check the type entries of association writes, fixing IDs given for the other direction
+ * and categories that do not match the definition
+ * Returns whether the corrected body changed.
+ */
+function checkAssociationTypes(
+  endpoint: RequestEndpoint,
+  corrected: { body: any },
+  from: string,
+  to: string,
+  forward: AssociationDefinition[],
+  reverse: AssociationDefinition[],
+  fail: (check: 'association-type' | 'category', location: string, message: string, severity?: 'error' | 'warning') => void
+): boolean {
+  const entries: Array<{ entry: any; location: string }> = [];
+  const body = corrected.body;
+  let changed = false;
+  const defaultType = forward.find((type) => !type.name) || forward[0];
+  const available = forward.map((type) => `${type.associationTypeId} ${type.associationCategory}${type.name ? ` "${type.name}"` : ''}`).join(', ');
+
+  if (endpoint.kind === 'association-batch' && (endpoint.action === 'batch/create' || endpoint.action === 'batch/labels/archive')) {
+    (Array.isArray(body?.inputs) ? body.inputs : []).forEach((input: any, i: number) => {
+      if (!Array.isArray(input?.types) || input.types.length === 0) {
+        fail('association-type', `inputs[${i}].types`, `${endpoint.action} needs "types" on every input; use batch/associate/default for the default association only`);
+        if (input && typeof input === 'object') {
+          input.types = [{ associationCategory: defaultType.associationCategory, associationTypeId: defaultType.associationTypeId }];
+          changed = true;
+        }
+        return;
+      }
+      input.types.forEach((entry: any, j: number) => entries.push({ entry, location: `inputs[${i}].types[${j}]` }));
+    });
+  } else if (endpoint.kind === 'association-record' && endpoint.action !== 'default' && endpoint.recordIdSegments.length > 1) {
+    if (!Array.isArray(body)) {
+      fail('association-type', 'body', 'The body must be an array of { associationCategory, associationTypeId }');
+      corrected.body = [{ associationCategory: defaultType.associationCategory, associationTypeId: defaultType.associationTypeId }];
+      return true;
+    }
+    body.forEach((entry: any, j: number) => entries.push({ entry, location: `body[${j}]` }));
+  }
+
+  const pairs = pairAssociationLabels(labelsFromDefinitions(forward), labelsFromDefinitions(reverse));
+  entries.forEach(({ entry, location }) => {
+    if (!entry || typeof entry !== 'object') {
+      fail('association-type', location, 'Each type must be an object with associationCategory and associationTypeId');
+      return;
+    }
+    const raw = entry.associationTypeId;
+    const typeId = typeof raw === 'number' ? raw : Number(raw);
+    if (raw === undefined || raw === null || raw === '' || !Number.isInteger(typeId)) {
+      fail('association-type', `${location}.associationTypeId`, `associationTypeId is missing or not a number. Available from ${from} to ${to}: ${available}`);
+      return;
+    }
+    if (typeof raw !== 'number') {
+      fail('association-type', `${location}.associationTypeId`, `associationTypeId must be a number, not the string "${raw}"`, 'warning');
+      entry.associationTypeId = typeId;
+      changed = true;
+    }
+
+    let definition = forward.find((type) => type.associationTypeId === typeId);
+    if (!definition) {
+      const inverse = reverse.some((type) => type.associationTypeId === typeId)
+        ? pairs.find((pair) => pair.inverseTypeId === typeId && pair.typeId !== null)
+        : undefined;
+      definition = inverse
+        ? forward.find((type) => type.associationTypeId === inverse.typeId)
+        : forward.length === 1
+          ? forward[0]
+          : undefined;
+      fail(
+        'association-type',
+        `${location}.associationTypeId`,
+        inverse
+          ? `Type ID ${typeId} is defined for ${to} → ${from}; ${from} → ${to} uses ${inverse.typeId}`
+          : `Type ID ${typeId} is not defined from ${from} to ${to}. Available: ${available}`
+      );
+      if (!definition) {
+        return;
+      }
+      entry.associationTypeId = definition.associationTypeId;
+      changed = true;
+    }
+
+    if (entry.associationCategory !== definition.associationCategory) {
+      const actual = entry.associationCategory === undefined ? 'is missing' : `"${entry.associationCategory}" does not match`;
+      const known = ASSOCIATION_CATEGORIES.includes(entry.associationCategory) ? '' : ` (valid categories: ${ASSOCIATION_CATEGORIES.join(', ')})`;
+      fail('category', `${location}.associationCategory`, `associationCategory ${actual}; type ${definition.associationTypeId} is ${definition.associationCategory}${known}`);
+      entry.associationCategory = definition.associationCategory;
+      changed = true;
+    }
+  });
+
+  return changed;
+}
+
+/**
+ * Closest existing property: same name ignoring case and separators, then a matching label
+ */
+function suggestProperty(properties: HubSpotProperty[], name: string): HubSpotProperty | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/[\s_-]+/g, '');
+  const wanted = normalize(name);
+  return (
+    properties.find((p) => normalize(p.name) === wanted) ||
+    properties.find((p) => normalize(p.label || '') === wanted)
+  );
+}
+
+/**
+ * Apply a property rename to the corrected request; returns whether anything changed
+ */
+function renameProperty(
+  endpoint: RequestEndpoint,
+  corrected: { body: any },
+  segments: string[],
+  reference: PropertyReference,
+  name: string
+): boolean {
+  if (reference.location === 'path') {
+    segments[4] = name;
+    return true;
+  }
+  if (reference.location === 'query.properties') {
+    const list = (endpoint.query.get('properties') || '').split(',').map((p) => (p.trim() === reference.name ? name : p));
+    endpoint.query.set('properties', list.join(','));
+    return true;
+  }
+
+  // Walk the location (e.g. "inputs[0].properties.firstname") in the corrected body
+  const steps = reference.location.match(/[^.[\]]+/g) || [];
+  const last = steps.pop()!;
+  let parent: any = corrected.body;
+  steps.forEach((step) => (parent = parent?.[step]));
+  if (!parent || typeof parent !== 'object') {
+    return false;
+  }
+  if (reference.write) {
+    // A key of a properties map, renamed in place to keep the order
+    const entries = Object.entries(parent).map(([key, value]) => [key === last ? name : key, value]);
+    Object.keys(parent).forEach((key) => delete parent[key]);
+    Object.assign(parent, Object.fromEntries(entries));
+  } else if (parent[last] && typeof parent[last] === 'object') {
+    parent[last].propertyName = name;
+  } else {
+    parent[last] = name;
+  }
+  return true;
+}
+
+/**
+ * HTTP status of the failure, given directly or implied by the error category
+ */
+function responseStatus(request: FailingRequest): number | null {
+  if (request.status !== undefined && !Number.isNaN(request.status)) {
+    return request.status;
+  }
+  return (request.response?.category && CATEGORY_STATUS[request.response.category]) || null;
+}
+
+/**
+ * Root cause from the error response, for requests whose shape checked out
+ */
+function responseCause(request: FailingRequest, endpoint: RequestEndpoint): string {
+  const status = responseStatus(request);
+  const message = request.response?.message;
+  // Failures unrelated to the request shape: token, scopes, conflicts, URL length, rate limits
+  if (status !== null && [401, 403, 409, 414, 429].includes(status)) {
+    const [match] = lookupErrors({ status, category: request.response?.category, subCategory: request.response?.subCategory, message });
+    if (match) {
+      return `${match.entry.cause}${message ? ` (${message.replace(/\.$/, '')})` : ''}. ${match.entry.solution}`;
+    }
+  }
+  if (status !== null && status >= 500) {
+    return `HubSpot failed to process a request that looks valid${message ? ` (${message})` : ''}.`;
+  }
+  if (status !== null || message) {
+    const records = endpoint.kind.startsWith('association-') && endpoint.kind !== 'association-definitions'
+      ? ' The request shape is valid, so check the specific records with `hubspot-crm records` (limits and existing labels).'
+      : ' The request shape is valid.';
+    return `HubSpot rejected the request${message ? `: ${message}` : ''}.${records}`;
+  }
+  return 'No problems found in the request.';
+}
+
+/**
+ * The batch call equivalent to a single-record PUT association
+ */
+function batchCreateFor(segments: string[], endpoint: RequestEndpoint, types: unknown): { method: string; path: string; body: unknown } {
+  const [fromIndex, toIndex] = endpoint.objectSegments;
+  const [fromIdIndex, toIdIndex] = endpoint.recordIdSegments;
+  const base = `/crm/v4/associations/${segments[fromIndex]}/${segments[toIndex]}`;
+  const input = { from: { id: segments[fromIdIndex] }, to: { id: segments[toIdIndex] } };
+  if (endpoint.action === 'default') {
+    return { method: 'POST', path: `${base}/batch/associate/default`, body: { inputs: [input] } };
+  }
+  return {
+    method: 'POST',
+    path: `${base}/batch/create`,
+    body: { inputs: [{ ...input, types: Array.isArray(types) ? types : [] }] },
+  };
+}
+
+function joinPath(segments: string[], query: URLSearchParams): string {
+  const search = query.toString();
+  return `/${segments.join('/')}${search ? `?${decodeURIComponent(search)}` : ''}`;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,233 @@
+/**
+ * Data dictionary generation (single Markdown file or static HTML site)
+ */
+
+import { HubSpotSchema, HubSpotProperty } from './types';
+import { SchemaSnapshot, SnapshotAssociationPair } from './snapshot';
+import { GeneratedFile, CodegenOptions, selectSchemas } from './codegen';
+import { isPortalScoped } from './utils';
+
+export type DocsFormat = 'markdown' | 'html';
+
+/**
+ * Render the whole model as one Markdown file with an index of objects
+ */
+export function generateMarkdownDocs(snapshot: SchemaSnapshot, fileName: string, options: CodegenOptions = {}): GeneratedFile[] {
+  const schemas = selectSchemas(snapshot.schemas, options.objects);
+  const lines: string[] = [];
+
+  lines.push(`# HubSpot data dictionary${portalSuffix(snapshot)}`);
+  lines.push('');
+  lines.push(`Generated ${snapshot.createdAt || 'from a snapshot'} by \`hubspot-crm docs\`.`);
+  lines.push('');
+  lines.push('| Object | Internal name | objectTypeId | Scope | Properties |');
+  lines.push('|---|---|---|---|---|');
+  schemas.forEach((schema) => {
+    lines.push(
+      `| [${md(schema.labels.singular)}](#${anchor(schema.name)}) | \`${schema.name}\` | \`${typeId(schema)}\` | ${scope(schema)} | ${(schema.properties || []).length} |`
+    );
+  });
+  lines.push('');
+
+  schemas.forEach((schema) => {
+    lines.push(`<a id="${anchor(schema.name)}"></a>`);
+    lines.push('');
+    lines.push(`## ${md(schema.labels.singular)} (\`${schema.name}\`)`);
+    lines.push('');
+    overview(schema).forEach(([key, value]) => lines.push(`- **${key}:** ${value.startsWith('`') ? value : md(value)}`));
+    lines.push('');
+
+    lines.push('### Properties');
+    lines.push('');
+    lines.push('| Name | Label | Type | Group | Description | Options |');
+    lines.push('|---|---|---|---|---|---|');
+    sortedProperties(schema).forEach((prop) => {
+      const flags = propertyFlags(prop);
+      lines.push(
+        `| \`${prop.name}\`${flags.length > 0 ? ` _(${flags.join(', ')})_` : ''} | ${md(prop.label)} | ${prop.type} (${prop.fieldType}) | ${md(prop.groupName || '')} | ${md(prop.description || '')} | ${md(optionList(prop))} |`
+      );
+    });
+    lines.push('');
+
+    lines.push('### Associations');
+    lines.push('');
+    const pairs = associationPairs(snapshot, schema);
+    if (!snapshot.includesAssociationTypes) {
+      lines.push('_Association types were not captured in this snapshot._');
+    } else if (pairs.length === 0) {
+      lines.push('_No association types._');
+    } else {
+      lines.push('| To object | typeId | Category | Label |');
+      lines.push('|---|---|---|---|');
+      pairs.forEach((pair) => {
+        pair.types.forEach((type) => {
+          lines.push(`| [\`${pair.toObjectType}\`](#${anchor(pair.toObjectType)}) | ${type.associationTypeId} | ${type.associationCategory} | ${md(type.name || '')} |`);
+        });
+      });
+    }
+    lines.push('');
+  });
+
+  return [{ path: fileName, contents: lines.join('\n') }];
+}
+
+/**
+ * Render an index page plus one page per object
+ */
+export function generateHtmlDocs(snapshot: SchemaSnapshot, options: CodegenOptions = {}): GeneratedFile[] {
+  const schemas = selectSchemas(snapshot.schemas, options.objects);
+  const known = new Set(schemas.map((s) => s.name));
+  const title = `HubSpot data dictionary${portalSuffix(snapshot)}`;
+
+  const index = [
+    `<h1>${html(title)}</h1>`,
+    `<p class="muted">Generated ${html(snapshot.createdAt || 'from a snapshot')} by <code>hubspot-crm docs</code>.</p>`,
+    '<table>',
+    '<tr><th>Object</th><th>Internal name</th><th>objectTypeId</th><th>Scope</th><th>Properties</th></tr>',
+    ...schemas.map(
+      (schema) =>
+        `<tr><td><a href="${html(schema.name)}.html">${html(schema.labels.singular)}</a></td><td><code>${html(schema.name)}</code></td><td><code>${html(typeId(schema))}</code></td><td>${scope(schema)}</td><td>${(schema.properties || []).length}</td></tr>`
+    ),
+    '</table>',
+  ];
+
+  const files: GeneratedFile[] = [{ path: 'index.html', contents: htmlPage(title, index) }];
+
+  schemas.forEach((schema) => {
+    const body: string[] = [];
+    body.push('<p><a href="index.html">← All objects</a></p>');
+    body.push(`<h1>${html(schema.labels.singular)} <code>${html(schema.name)}</code></h1>`);
+    body.push('<ul>');
+    overview(schema).forEach(([key, value]) => body.push(`<li><strong>${html(key)}:</strong> ${html(value.replace(/`/g, ''))}</li>`));
+    body.push('</ul>');
+
+    body.push('<h2>Properties</h2>');
+    body.push('<table>');
+    body.push('<tr><th>Name</th><th>Label</th><th>Type</th><th>Group</th><th>Description</th><th>Options</th></tr>');
+    sortedProperties(schema).forEach((prop) => {
+      const flags = propertyFlags(prop);
+      body.push(
+        `<tr id="${html(prop.name)}"><td><code>${html(prop.name)}</code>${flags.length > 0 ? ` <span class="muted">(${html(flags.join(', '))})</span>` : ''}</td><td>${html(prop.label)}</td><td>${html(`${prop.type} (${prop.fieldType})`)}</td><td>${html(prop.groupName || '')}</td><td>${html(prop.description || '')}</td><td>${html(optionList(prop))}</td></tr>`
+      );
+    });
+    body.push('</table>');
+
+    body.push('<h2>Associations</h2>');
+    const pairs = associationPairs(snapshot, schema);
+    if (!snapshot.includesAssociationTypes) {
+      body.push('<p class="muted">Association types were not captured in this snapshot.</p>');
+    } else if (pairs.length === 0) {
+      body.push('<p class="muted">No association types.</p>');
+    } else {
+      body.push('<table>');
+      body.push('<tr><th>To object</th><th>typeId</th><th>Category</th><th>Label</th></tr>');
+      pairs.forEach((pair) => {
+        const to = known.has(pair.toObjectType)
+          ? `<a href="${html(pair.toObjectType)}.html"><code>${html(pair.toObjectType)}</code></a>`
+          : `<code>${html(pair.toObjectType)}</code>`;
+        pair.types.forEach((type) => {
+          body.push(`<tr><td>${to}</td><td>${type.associationTypeId}</td><td>${html(type.associationCategory)}</td><td>${html(type.name || '')}</td></tr>`);
+        });
+      });
+      body.push('</table>');
+    }
+
+    files.push({ path: `${schema.name}.html`, contents: htmlPage(`${schema.labels.singular} - ${title}`, body) });
+  });
+
+  return files;
+}
+
+function overview(schema: HubSpotSchema): Array<[string, string]> {
+  const rows: Array<[string, string]> = [
+    ['Labels', `${schema.labels.singular} / ${schema.labels.plural}`],
+    ['Internal name', `\`${schema.name}\``],
+    ['objectTypeId', `\`${typeId(schema)}\``],
+    ['Scope', scope(schema)],
+  ];
+  if (schema.primaryDisplayProperty) {
+    rows.push(['Primary display property', `\`${schema.primaryDisplayProperty}\``]);
+  }
+  if ((schema.requiredProperties || []).length > 0) {
+    rows.push(['Required properties', schema.requiredProperties.map((p) => `\`${p}\``).join(', ')]);
+  }
+  return rows;
+}
+
+function associationPairs(snapshot: SchemaSnapshot, schema: HubSpotSchema): SnapshotAssociationPair[] {
+  return snapshot.associationTypes.filter((pair) => pair.fromObjectType === schema.name);
+}
+
+function sortedProperties(schema: HubSpotSchema): HubSpotProperty[] {
+  return [...(schema.properties || [])].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function propertyFlags(prop: HubSpotProperty): string[] {
+  const flags: string[] = [];
+  flags.push(prop.hubspotDefined ? 'HubSpot' : 'custom');
+  if (prop.calculated) flags.push('calculated');
+  if (prop.hasUniqueValue) flags.push('unique');
+  if (prop.hidden) flags.push('hidden');
+  return flags;
+}
+
+function optionList(prop: HubSpotProperty): string {
+  if (prop.externalOptions) {
+    return '(external options)';
+  }
+  return [...(prop.options || [])]
+    .sort((a, b) => a.displayOrder - b.displayOrder)
+    .map((o) => `${o.value}${o.label !== o.value ? ` = ${o.label}` : ''}${o.hidden ? ' (hidden)' : ''}`)
+    .join('; ');
+}
+
+function typeId(schema: HubSpotSchema): string {
+  return schema.objectTypeId || schema.id;
+}
+
+function scope(schema: HubSpotSchema): string {
+  return isPortalScoped(schema) ? 'portal-scoped' : 'standard';
+}
+
+function portalSuffix(snapshot: SchemaSnapshot): string {
+  return snapshot.source.portalId ? ` - portal ${snapshot.source.portalId}` : '';
+}
+
+function anchor(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-');
+}
+
+/**
+ * Escape text for a Markdown table cell
+ */
+function md(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+}
+
+function html(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function htmlPage(title: string, body: string[]): string {
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${html(title)}</title>`,
+    '<style>',
+    'body { font-family: -apple-system, "Segoe UI", sans-serif; margin: 2rem; color: #222; }',
+    'table { border-collapse: collapse; width: 100%; margin-bottom: 1.5rem; }',
+    'th, td { border: 1px solid #ddd; padding: 0.35rem 0.6rem; text-align: left; vertical-align: top; }',
+    'th { background: #f5f5f5; }',
+    'code { background: #f3f3f3; padding: 0 0.2rem; }',
+    '.muted { color: #777; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    ...body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
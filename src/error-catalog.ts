@@ -0,0 +1,314 @@
+/**
+ * Catalog of HubSpot API errors keyed by HTTP status and error category, with detection hints
+ */
+
+export interface ErrorCatalogEntry {
+  id: string;
+  status: number;
+  /** HubSpot error category from the response body, e.g. VALIDATION_ERROR */
+  category: string | null;
+  /** subCategory, or policyName for rate limits */
+  subCategory: string | null;
+  cause: string;
+  solution: string;
+  /** Lowercase fragments of the error message (or its errors[] details) that point to this cause */
+  detect: string[];
+}
+
+export interface ErrorQuery {
+  status?: number;
+  category?: string;
+  subCategory?: string;
+  /** Error message, plus the messages and codes of its errors[] details */
+  message?: string;
+}
+
+export interface ErrorCatalogMatch {
+  entry: ErrorCatalogEntry;
+  /** What matched, e.g. ["status", "category", "message: does not exist"] */
+  matchedOn: string[];
+}
+
+export const STATUS_TITLES: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  414: 'URI Too Long',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+};
+
+export const ERROR_CATALOG: ErrorCatalogEntry[] = [
+  {
+    id: 'invalid-object-type',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Invalid object type name',
+    solution: 'Use the internal object name (e.g., "contacts" not "contact"). Run `hubspot-crm schemas` to see all valid names.',
+    detect: ['unable to infer object type', 'object type', 'objecttype'],
+  },
+  {
+    id: 'invalid-association-type',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Incorrect association type ID',
+    solution: 'Use `hubspot-crm associations <fromObject> <toObject>` to get valid association type IDs, or `hubspot-crm diagnose` to check the request.',
+    detect: ['associationtypeid', 'association type', 'invalid association'],
+  },
+  {
+    id: 'missing-association-label',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Missing required association label',
+    solution: 'For custom associations, ensure you include the correct label name.',
+    detect: ['label', 'associationcategory'],
+  },
+  {
+    id: 'invalid-record-id',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Invalid object ID format',
+    solution: 'Object IDs must be valid HubSpot record IDs (numeric strings).',
+    detect: ['invalid id', 'not a valid', 'numberformat', 'for input string'],
+  },
+  {
+    id: 'unknown-property',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Property does not exist on the object',
+    solution: 'Use the internal property name, not its label. Run `hubspot-crm find-property <query>` to look it up.',
+    detect: ['property_doesnt_exist', 'does not exist'],
+  },
+  {
+    id: 'invalid-property-value',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Property value rejected (wrong option, type or read-only property)',
+    solution: 'Check the property type and options with `hubspot-crm property <object> <property>`.',
+    detect: ['property values were not valid', 'invalid_option', 'invalid_integer', 'invalid_email', 'read_only_value'],
+  },
+  {
+    id: 'association-limit',
+    status: 400,
+    category: 'VALIDATION_ERROR',
+    subCategory: null,
+    cause: 'Association limit reached for a record',
+    solution: 'Check the record\'s existing associations and the configured limits with `hubspot-crm records <objectA> <id> <objectB>`.',
+    detect: ['limit', 'too many associations', 'maxtoobjectids'],
+  },
+  {
+    id: 'invalid-token',
+    status: 401,
+    category: 'INVALID_AUTHENTICATION',
+    subCategory: null,
+    cause: 'Access token missing or invalid',
+    solution: 'Set HUBSPOT_ACCESS_TOKEN (or the profile token) to a private app access token; check `hubspot-crm profiles current`.',
+    detect: ['authentication credentials not found', 'invalid authentication', 'oauth'],
+  },
+  {
+    id: 'expired-token',
+    status: 401,
+    category: 'EXPIRED_AUTHENTICATION',
+    subCategory: null,
+    cause: 'Access token expired',
+    solution: 'OAuth access tokens expire after 30 minutes; refresh the token, or use a private app token.',
+    detect: ['expired'],
+  },
+  {
+    id: 'missing-scopes',
+    status: 403,
+    category: 'MISSING_SCOPES',
+    subCategory: null,
+    cause: 'Token lacks a required scope',
+    solution: 'Add the scopes listed in the error (e.g. crm.schemas.custom.read, crm.objects.contacts.read) to the private app, then use the new token.',
+    detect: ["hasn't been granted all required scopes", 'required scopes', 'scope'],
+  },
+  {
+    id: 'object-type-not-found',
+    status: 404,
+    category: 'OBJECT_NOT_FOUND',
+    subCategory: null,
+    cause: 'Object type does not exist',
+    solution: 'Verify the object type exists using `hubspot-crm schemas`.',
+    detect: ['object type', 'schema'],
+  },
+  {
+    id: 'no-association-definition',
+    status: 404,
+    category: 'OBJECT_NOT_FOUND',
+    subCategory: null,
+    cause: 'No association definition between objects',
+    solution: 'Check available associations with `hubspot-crm associations <fromObject> <toObject>`; `hubspot-crm path` finds indirect routes.',
+    detect: ['association'],
+  },
+  {
+    id: 'record-not-found',
+    status: 404,
+    category: 'OBJECT_NOT_FOUND',
+    subCategory: null,
+    cause: 'Record does not exist (deleted, merged or in another portal)',
+    solution: 'Confirm the record exists with `hubspot-crm records <object> <id> <toObject>`; merged records keep only the surviving ID.',
+    detect: ['resource not found', 'object not found', 'could not be found'],
+  },
+  {
+    id: 'record-already-exists',
+    status: 409,
+    category: 'CONFLICT',
+    subCategory: null,
+    cause: 'A record with the same unique value already exists',
+    solution: 'Update the existing record (its ID is in the message), or use batch/upsert with idProperty.',
+    detect: ['already exists', 'existing id'],
+  },
+  {
+    id: 'definition-already-exists',
+    status: 409,
+    category: 'CONFLICT',
+    subCategory: null,
+    cause: 'A property, label or object with the same name already exists',
+    solution: 'Reuse the existing definition; `hubspot-crm plan` only creates what is missing.',
+    detect: ['property', 'label', 'name already', 'duplicate'],
+  },
+  {
+    id: 'uri-too-long',
+    status: 414,
+    category: null,
+    subCategory: null,
+    cause: 'Request URL too long (too many properties or IDs in the query string)',
+    solution: 'Request fewer properties per call, or use the POST batch/read or search endpoints, which take them in the body.',
+    detect: ['uri too long', 'request-uri', 'url too long'],
+  },
+  {
+    id: 'rate-limit-secondly',
+    status: 429,
+    category: 'RATE_LIMITS',
+    subCategory: 'TEN_SECONDLY_ROLLING',
+    cause: 'Burst rate limit exceeded (requests per 10 seconds)',
+    solution: 'Retry after the Retry-After delay; lower concurrency, or pass --rate-limit to this tool.',
+    detect: ['ten_secondly_rolling', 'secondly'],
+  },
+  {
+    id: 'rate-limit-daily',
+    status: 429,
+    category: 'RATE_LIMITS',
+    subCategory: 'DAILY',
+    cause: 'Daily request limit exceeded',
+    solution: 'Wait for the daily limit to reset (midnight in the portal\'s time zone), use batch endpoints, and keep schema reads cached.',
+    detect: ['daily'],
+  },
+  {
+    id: 'portal-scoped-name',
+    status: 500,
+    category: null,
+    subCategory: null,
+    cause: 'Portal-scoped object name mismatch',
+    solution: 'For custom objects, use the exact internal name including the portal prefix (e.g., "p12345_customobject").',
+    detect: [],
+  },
+  {
+    id: 'association-type-direction',
+    status: 500,
+    category: null,
+    subCategory: null,
+    cause: 'Association type ID collision',
+    solution: 'Ensure you\'re using the correct association type ID for the direction (from -> to vs to -> from). `hubspot-crm associations <from> <to>` lists the ID for each direction.',
+    detect: [],
+  },
+  {
+    id: 'api-version-mismatch',
+    status: 500,
+    category: null,
+    subCategory: null,
+    cause: 'API version mismatch',
+    solution: 'Use v4 API for associations: /crm/v4/associations/{fromObjectType}/{toObjectType}/batch/create',
+    detect: [],
+  },
+];
+
+/**
+ * Read a lookup query: a status code, a category (or entry id), raw error JSON, or message text
+ */
+export function parseErrorQuery(input: string): ErrorQuery {
+  const trimmed = input.trim();
+  if (/^\d{3}$/.test(trimmed)) {
+    return { status: Number(trimmed) };
+  }
+  if (trimmed.startsWith('{')) {
+    let body: any;
+    try {
+      body = JSON.parse(trimmed);
+    } catch (error: any) {
+      throw new Error(`Invalid error JSON: ${error.message}`);
+    }
+    // HubSpot bodies carry "status": "error"; only a numeric status is an HTTP status
+    const status = Number(body.statusCode ?? body.status);
+    const details: string[] = (Array.isArray(body.errors) ? body.errors : []).flatMap((detail: any) =>
+      [detail?.message, detail?.code, detail?.error].filter((part) => typeof part === 'string')
+    );
+    return {
+      status: Number.isInteger(status) ? status : undefined,
+      category: typeof body.category === 'string' ? body.category : undefined,
+      // Rate limit responses name the exceeded policy instead of a subCategory
+      subCategory: [body.subCategory, body.policyName].find((part) => typeof part === 'string'),
+      message: [body.message, ...details].filter((part) => typeof part === 'string').join(' ') || undefined,
+    };
+  }
+  if (/^[A-Za-z0-9_.-]+$/.test(trimmed)) {
+    return { category: trimmed };
+  }
+  return { message: trimmed };
+}
+
+/**
+ * Catalog entries matching a query, best first
+ * When the message matches any detection hint, entries matched only by status or category are left out.
+ * Categories without an entry (e.g. INTERNAL_ERROR) fall back to the status.
+ */
+export function lookupErrors(query: ErrorQuery): ErrorCatalogMatch[] {
+  const message = query.message?.toLowerCase();
+  const category = query.category?.toLowerCase();
+  const subCategory = query.subCategory?.toLowerCase();
+
+  const scored = ERROR_CATALOG.map((entry) => {
+    const matchedOn: string[] = [];
+    let score = 0;
+    if (query.status !== undefined && entry.status === query.status) {
+      matchedOn.push('status');
+      score += 1;
+    }
+    if (category && (entry.category?.toLowerCase() === category || entry.id === category)) {
+      matchedOn.push(entry.id === category ? 'id' : 'category');
+      score += 2;
+    }
+    if (subCategory && entry.subCategory?.toLowerCase() === subCategory) {
+      matchedOn.push('subCategory');
+      score += 4;
+    }
+    const hints = message ? entry.detect.filter((hint) => message.includes(hint)) : [];
+    hints.forEach((hint) => matchedOn.push(`message: ${hint}`));
+    score += hints.length * 3;
+    const keyed = (query.status === undefined || matchedOn.includes('status')) && (!category || matchedOn.some((m) => m === 'category' || m === 'id'));
+    return { entry, matchedOn, score, keyed, byMessage: hints.length > 0 };
+  });
+
+  // A bare word that is not a category or id is searched as message text (e.g. INVALID_OPTION)
+  if (query.category && !query.message && scored.every((s) => s.score === 0)) {
+    return lookupErrors({ ...query, category: undefined, message: query.category });
+  }
+
+  // Entries of another subCategory, status or category only count when none match those
+  const bySubCategory = scored.filter((s) => s.matchedOn.includes('subCategory'));
+  const pool = bySubCategory.length > 0 ? bySubCategory : scored.some((s) => s.keyed && s.score > 0) ? scored.filter((s) => s.keyed) : scored;
+  const byMessage = pool.some((s) => s.byMessage);
+  return pool
+    .filter((s) => s.score > 0 && (!byMessage || s.byMessage))
+    .sort((a, b) => b.score - a.score)
+    .map(({ entry, matchedOn }) => ({ entry, matchedOn }));
+}
@@ -0,0 +1,92 @@
+/**
+ * Typed errors for HubSpot API failures
+ */
+
+/**
+ * Error body returned by the HubSpot API
+ */
+export interface HubSpotErrorBody {
+  status?: string;
+  message?: string;
+  correlationId?: string;
+  category?: string;
+  subCategory?: string;
+}
+
+/**
+ * Base class for all HubSpot API errors
+ * Carries the HTTP status, HubSpot's error category and the request path.
+ */
+export class HubSpotApiError extends Error {
+  readonly status: number;
+  readonly category?: string;
+  readonly subCategory?: string;
+  readonly correlationId?: string;
+  readonly path?: string;
+
+  constructor(message: string, status: number, body: HubSpotErrorBody = {}, path?: string) {
+    super(`HubSpot API Error (${status}): ${message}`);
+    this.name = new.target.name;
+    this.status = status;
+    this.category = body.category;
+    this.subCategory = body.subCategory;
+    this.correlationId = body.correlationId;
+    this.path = path;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      type: this.name,
+      status: this.status,
+      category: this.category ?? null,
+      subCategory: this.subCategory ?? null,
+      correlationId: this.correlationId ?? null,
+      path: this.path ?? null,
+    };
+  }
+}
+
+/** 401 - missing, expired or invalid access token */
+export class HubSpotAuthError extends HubSpotApiError {}
+
+/** 403 - token lacks the required scopes */
+export class HubSpotScopeError extends HubSpotApiError {}
+
+/** 404 - object type, schema or record does not exist */
+export class HubSpotNotFoundError extends HubSpotApiError {}
+
+/** 400/409/422 - request was rejected as invalid */
+export class HubSpotValidationError extends HubSpotApiError {}
+
+/** 429 - rate limit exceeded */
+export class HubSpotRateLimitError extends HubSpotApiError {}
+
+/** 5xx - HubSpot failed to process the request */
+export class HubSpotServerError extends HubSpotApiError {}
+
+/**
+ * Convert an axios error into the matching HubSpotApiError subclass
+ * Errors without an HTTP response (network failures) are returned unchanged.
+ */
+export function toHubSpotApiError(error: any, path?: string): Error {
+  if (!error?.response) {
+    return error;
+  }
+
+  const status: number = error.response.status;
+  const body: HubSpotErrorBody =
+    error.response.data && typeof error.response.data === 'object' ? error.response.data : {};
+  const message = body.message || error.response.statusText || 'Request failed';
+
+  const ErrorClass =
+    status === 401 ? HubSpotAuthError
+    : status === 403 ? HubSpotScopeError
+    : status === 404 ? HubSpotNotFoundError
+    : status === 429 ? HubSpotRateLimitError
+    : status >= 500 ? HubSpotServerError
+    : status >= 400 ? HubSpotValidationError
+    : HubSpotApiError;
+
+  return new ErrorClass(message, status, body, path);
+}
@@ -0,0 +1,227 @@
+/**
+ * Association graph diagrams (Mermaid erDiagram or Graphviz DOT)
+ */
+
+import { HubSpotSchema } from './types';
+import { SchemaSnapshot } from './snapshot';
+import { isPortalScoped, STANDARD_OBJECTS } from './utils';
+
+export type GraphFormat = 'mermaid' | 'dot';
+
+export interface GraphNode {
+  name: string;
+  label: string;
+  /** Empty for standard objects whose schema was not captured */
+  objectTypeId: string;
+  custom: boolean;
+}
+
+/**
+ * One association type between two objects, with the type IDs for both directions
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  category: string;
+  label: string | null;
+  /** Type IDs for from → to */
+  typeIds: number[];
+  /** Type IDs for to → from (empty when only one direction is defined) */
+  inverseTypeIds: number[];
+}
+
+export interface AssociationGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphOptions {
+  /** Only keep this object and its neighborhood */
+  focus?: string;
+  /** Hops from the focus object (default 1) */
+  depth?: number;
+  /** Drop HUBSPOT_DEFINED association types without a label */
+  hideUnlabeled?: boolean;
+}
+
+/**
+ * Build the object graph from a snapshot's association types
+ * Each pair of directions with the same category and label becomes one edge.
+ */
+export function buildAssociationGraph(snapshot: SchemaSnapshot, options: GraphOptions = {}): AssociationGraph {
+  // Standard objects are known even when the snapshot holds no schema for them
+  const known = new Set([...snapshot.schemas.map((s) => s.name), ...STANDARD_OBJECTS]);
+  const edges = new Map<string, GraphEdge>();
+
+  snapshot.associationTypes.forEach((pair) => {
+    if (!known.has(pair.fromObjectType) || !known.has(pair.toObjectType)) {
+      return;
+    }
+    // The alphabetically first object is always the edge's `from`
+    const forward = pair.fromObjectType <= pair.toObjectType;
+    const [from, to] = forward ? [pair.fromObjectType, pair.toObjectType] : [pair.toObjectType, pair.fromObjectType];
+
+    pair.types.forEach((type) => {
+      if (options.hideUnlabeled && type.associationCategory === 'HUBSPOT_DEFINED' && !type.name) {
+        return;
+      }
+      const label = type.name || null;
+      const key = `${from}|${to}|${type.associationCategory}|${(label || '').toLowerCase()}`;
+      const edge = edges.get(key) || { from, to, category: type.associationCategory, label, typeIds: [], inverseTypeIds: [] };
+      const ids = forward ? edge.typeIds : edge.inverseTypeIds;
+      if (!ids.includes(type.associationTypeId)) {
+        ids.push(type.associationTypeId);
+      }
+      edges.set(key, edge);
+    });
+  });
+
+  const nodes = snapshot.schemas.map(graphNode);
+  [...edges.values()].forEach((edge) => {
+    [edge.from, edge.to]
+      .filter((name) => !nodes.some((node) => node.name === name))
+      .forEach((name) => nodes.push({ name, label: name, objectTypeId: '', custom: false }));
+  });
+
+  let graph: AssociationGraph = {
+    nodes: nodes.sort((a, b) => a.name.localeCompare(b.name)),
+    edges: [...edges.values()]
+      .map((edge) => ({ ...edge, typeIds: edge.typeIds.sort((a, b) => a - b), inverseTypeIds: edge.inverseTypeIds.sort((a, b) => a - b) }))
+      .sort((a, b) => `${a.from}|${a.to}|${a.label || ''}`.localeCompare(`${b.from}|${b.to}|${b.label || ''}`)),
+  };
+
+  if (options.focus) {
+    graph = neighborhood(graph, findNode(snapshot.schemas, options.focus), options.depth ?? 1);
+  }
+  return graph;
+}
+
+/**
+ * Keep the objects within `depth` hops of the focus object, and the edges between them
+ */
+function neighborhood(graph: AssociationGraph, focus: string, depth: number): AssociationGraph {
+  const reached = new Set([focus]);
+  let frontier = [focus];
+  for (let hop = 0; hop < depth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    graph.edges.forEach((edge) => {
+      [[edge.from, edge.to], [edge.to, edge.from]].forEach(([a, b]) => {
+        if (frontier.includes(a) && !reached.has(b)) {
+          reached.add(b);
+          next.push(b);
+        }
+      });
+    });
+    frontier = next;
+  }
+
+  return {
+    nodes: graph.nodes.filter((node) => reached.has(node.name)),
+    edges: graph.edges.filter((edge) => reached.has(edge.from) && reached.has(edge.to)),
+  };
+}
+
+function findNode(schemas: HubSpotSchema[], input: string): string {
+  const needle = input.trim().toLowerCase();
+  const standard = STANDARD_OBJECTS.find((name) => name === needle);
+  if (standard) {
+    return standard;
+  }
+  const schema = schemas.find(
+    (s) =>
+      s.name.toLowerCase() === needle ||
+      (s.objectTypeId || s.id) === input ||
+      s.labels.singular.toLowerCase() === needle ||
+      s.labels.plural.toLowerCase() === needle
+  );
+  if (!schema) {
+    throw new Error(`Unknown object "${input}". Run \`hubspot-crm schemas\` to see valid names.`);
+  }
+  return schema.name;
+}
+
+function graphNode(schema: HubSpotSchema): GraphNode {
+  return {
+    name: schema.name,
+    label: schema.labels.singular,
+    objectTypeId: schema.objectTypeId || schema.id,
+    custom: isPortalScoped(schema),
+  };
+}
+
+/**
+ * Render the graph as a Mermaid erDiagram or a Graphviz DOT digraph
+ */
+export function renderGraph(graph: AssociationGraph, format: GraphFormat): string {
+  return format === 'dot' ? renderDot(graph) : renderMermaid(graph);
+}
+
+function renderMermaid(graph: AssociationGraph): string {
+  const lines = ['erDiagram'];
+  graph.nodes.forEach((node) => {
+    lines.push(`    ${mermaidId(node.name)}["${mermaidText(node.objectTypeId ? `${node.label} (${node.objectTypeId})` : node.label)}"]`);
+  });
+  graph.edges.forEach((edge) => {
+    lines.push(`    ${mermaidId(edge.from)} }o--o{ ${mermaidId(edge.to)} : "${mermaidText(edgeText(edge))}"`);
+  });
+
+  const custom = graph.nodes.filter((node) => node.custom).map((node) => mermaidId(node.name));
+  const standard = graph.nodes.filter((node) => !node.custom).map((node) => mermaidId(node.name));
+  lines.push('    classDef standard fill:#e8f0fe,stroke:#4a6fa5');
+  lines.push('    classDef custom fill:#fff4e5,stroke:#d9822b');
+  if (standard.length > 0) {
+    lines.push(`    class ${standard.join(',')} standard`);
+  }
+  if (custom.length > 0) {
+    lines.push(`    class ${custom.join(',')} custom`);
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderDot(graph: AssociationGraph): string {
+  const lines = [
+    'digraph hubspot_associations {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+  graph.nodes.forEach((node) => {
+    const fill = node.custom ? '#fff4e5' : '#e8f0fe';
+    const color = node.custom ? '#d9822b' : '#4a6fa5';
+    lines.push(`  ${dotString(node.name)} [label=${dotString([node.label, node.name, node.objectTypeId].filter(Boolean).join('\n'))}, fillcolor="${fill}", color="${color}"];`);
+  });
+  graph.edges.forEach((edge) => {
+    const attributes = [
+      `label=${dotString(edgeText(edge))}`,
+      edge.inverseTypeIds.length > 0 && edge.typeIds.length > 0 ? 'dir=both' : null,
+      edge.typeIds.length === 0 ? 'dir=back' : null,
+      edge.category === 'HUBSPOT_DEFINED' ? 'color="#888888"' : 'color="#d9822b"',
+    ].filter(Boolean);
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [${attributes.join(', ')}];`);
+  });
+  lines.push('}');
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Edge caption: label and type IDs, forward / inverse
+ */
+function edgeText(edge: GraphEdge): string {
+  const name = edge.label || (edge.category === 'HUBSPOT_DEFINED' ? 'unlabeled' : edge.category);
+  const ids = [edge.typeIds.join(',') || '-', ...(edge.inverseTypeIds.length > 0 ? [edge.inverseTypeIds.join(',')] : [])].join(' / ');
+  return `${name} (${ids})`;
+}
+
+function mermaidId(name: string): string {
+  return name.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+function mermaidText(text: string): string {
+  return text.replace(/"/g, "'");
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
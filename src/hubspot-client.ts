@@ -1,15 +1,35 @@
-import axios, { AxiosInstance } from 'axios';
-import { SchemasResponse, HubSpotSchema, AssociationTypesResponse, ObjectExistsResult } from './types';
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { SchemasResponse, HubSpotSchema, HubSpotProperty, HubSpotPropertyGroup, PropertiesResponse, PropertyGroupsResponse, AssociationTypesResponse, AssociationLabel, AssociationLabelsResponse, AssociationDefinitionConfiguration, AssociationDefinitionConfigurationsResponse, HubSpotRecord, RecordAssociation, RecordAssociationsResponse, ObjectExistsResult, HubSpotClientOptions } from './types';
+import { TokenBucket, sleep } from './rate-limiter';
+import { toHubSpotApiError, HubSpotNotFoundError, HubSpotValidationError } from './errors';
+import { SchemaCache, CacheMissError } from './cache';
+
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_RETRY_BUDGET = 50;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 30000;
+const DEFAULT_REQUESTS_PER_SECOND = 10;
 
 export class HubSpotClient {
   private client: AxiosInstance;
   private baseUrl = 'https://api.hubapi.com';
+  private limiter: TokenBucket;
+  private maxRetries: number;
+  private retryBudget: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private retriesUsed = 0;
+  private cache?: SchemaCache;
 
-  constructor(accessToken: string) {
+  constructor(accessToken: string, options: HubSpotClientOptions = {}) {
     if (!accessToken) {
       throw new Error('HUBSPOT_ACCESS_TOKEN is required');
     }
 
+    if (options.baseUrl) {
+      this.baseUrl = options.baseUrl;
+    }
+
     this.client = axios.create({
       baseURL: this.baseUrl,
       headers: {
@@ -17,6 +37,124 @@ export class HubSpotClient {
         'Content-Type': 'application/json',
       },
     });
+
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    this.retryBudget = options.retryBudget ?? DEFAULT_RETRY_BUDGET;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.limiter = new TokenBucket(options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND);
+    this.cache = options.cache;
+  }
+
+  /**
+   * Fetch time of the oldest cached entry used by this client, or null if all data was live
+   */
+  cachedDataFetchedAt(): Date | null {
+    return this.cache?.oldestServedAt() ?? null;
+  }
+
+  /**
+   * Route a read through the cache when one is configured
+   */
+  private cached<T>(key: string, fetch: () => Promise<T>, shouldStore?: (data: T) => boolean): Promise<T> {
+    return this.cache ? this.cache.getOrFetch(key, fetch, shouldStore) : fetch();
+  }
+
+  /**
+   * Rate-limited GET with retries
+   *
+   * 429 and 5xx responses (and network errors) are retried with exponential
+   * backoff and full jitter. Retry-After and the X-HubSpot-RateLimit-* headers
+   * take precedence over the computed delay when present.
+   */
+  private async get<T>(path: string, config?: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.limiter.take();
+
+      try {
+        const response = await this.client.get<T>(path, config);
+        this.observeRateLimitHeaders(response.headers);
+        return response;
+      } catch (error: any) {
+        if (error.response) {
+          this.observeRateLimitHeaders(error.response.headers);
+        }
+        if (!this.isRetryable(error) || attempt >= this.maxRetries || this.retriesUsed >= this.retryBudget) {
+          throw error;
+        }
+
+        this.retriesUsed++;
+        await sleep(this.retryDelay(error, attempt));
+      }
+    }
+  }
+
+  /**
+   * Retry on rate limits, server errors and dropped connections,
+   * but never once the daily quota is exhausted
+   */
+  private isRetryable(error: any): boolean {
+    if (!error.response) {
+      return !!error.code && error.code !== 'ERR_CANCELED';
+    }
+
+    const status: number = error.response.status;
+    if (status === 429) {
+      return readHeader(error.response.headers, 'x-hubspot-ratelimit-daily-remaining') !== 0;
+    }
+    return status >= 500;
+  }
+
+  /**
+   * Compute the delay before the next attempt
+   */
+  private retryDelay(error: any, attempt: number): number {
+    const headers = error.response?.headers;
+
+    const retryAfter = parseRetryAfter(headers?.['retry-after']);
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.maxDelayMs);
+    }
+
+    if (error.response?.status === 429) {
+      if (readHeader(headers, 'x-hubspot-ratelimit-secondly-remaining') === 0) {
+        return 1000;
+      }
+      const interval = readHeader(headers, 'x-hubspot-ratelimit-interval-milliseconds');
+      if (readHeader(headers, 'x-hubspot-ratelimit-remaining') === 0 && interval !== null) {
+        return interval;
+      }
+    }
+
+    const ceiling = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+    return Math.floor(Math.random() * ceiling);
+  }
+
+  /**
+   * Adapt the token bucket to the limits the portal reports
+   */
+  private observeRateLimitHeaders(headers: any): void {
+    if (!headers) {
+      return;
+    }
+
+    const secondly = readHeader(headers, 'x-hubspot-ratelimit-secondly');
+    if (secondly !== null) {
+      this.limiter.setRate(secondly);
+    }
+
+    const max = readHeader(headers, 'x-hubspot-ratelimit-max');
+    const interval = readHeader(headers, 'x-hubspot-ratelimit-interval-milliseconds');
+    if (max !== null && interval !== null && interval > 0) {
+      this.limiter.setRate(max / (interval / 1000));
+    }
+
+    if (readHeader(headers, 'x-hubspot-ratelimit-secondly-remaining') === 0) {
+      this.limiter.pause(1000);
+    }
+    if (readHeader(headers, 'x-hubspot-ratelimit-remaining') === 0 && interval !== null) {
+      this.limiter.pause(interval);
+    }
   }
 
   /**
@@ -29,8 +167,13 @@ export class HubSpotClient {
    * - 403 → token lacks object read scope
    */
   async objectExists(name: string): Promise<ObjectExistsResult> {
+    // Only definitive answers are cached; permission and API errors are re-probed
+    return this.cached(`object-exists-${name}`, () => this.probeObject(name), (result) => !result.error);
+  }
+
+  private async probeObject(name: string): Promise<ObjectExistsResult> {
     try {
-      await this.client.get(`/crm/v3/objects/${name}`, {
+      await this.get(`/crm/v3/objects/${name}`, {
         params: { limit: 1 },
       });
       
@@ -62,42 +205,138 @@ export class HubSpotClient {
    * Fetch all CRM schemas from HubSpot
    */
   async getSchemas(): Promise<HubSpotSchema[]> {
+    return this.cached('schemas', async () => {
+      try {
+        const response = await this.get<SchemasResponse>('/crm/v3/schemas');
+        return response.data.results;
+      } catch (error: any) {
+        throw toHubSpotApiError(error, '/crm/v3/schemas');
+      }
+    });
+  }
+
+  /**
+   * Fetch archived custom object schemas (read-only)
+   * GET /crm/v3/schemas?archived=true
+   */
+  async getArchivedSchemas(): Promise<HubSpotSchema[]> {
+    return this.cached('schemas-archived', async () => {
+      try {
+        const response = await this.get<SchemasResponse>('/crm/v3/schemas', { params: { archived: true } });
+        return response.data.results;
+      } catch (error: any) {
+        throw toHubSpotApiError(error, '/crm/v3/schemas?archived=true');
+      }
+    });
+  }
+
+  /**
+   * Fetch a specific schema by object type
+   * Offline, falls back to the cached schema list when this type was never fetched on its own.
+   */
+  async getSchema(objectType: string): Promise<HubSpotSchema> {
+    const path = `/crm/v3/schemas/${objectType}`;
     try {
-      const response = await this.client.get<SchemasResponse>('/crm/v3/schemas');
-      return response.data.results;
+      return await this.cached(`schema-${objectType}`, async () => {
+        try {
+          const response = await this.get<HubSpotSchema>(path);
+          return response.data;
+        } catch (error: any) {
+          throw toHubSpotApiError(error, path);
+        }
+      });
     } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `HubSpot API Error (${error.response.status}): ${
-            error.response.data?.message || error.response.statusText
-          }`
-        );
+      if (error instanceof CacheMissError) {
+        const match = this.findCachedSchema(objectType);
+        if (match) {
+          return match;
+        }
       }
       throw error;
     }
   }
 
   /**
-   * Fetch a specific schema by object type
+   * Fetch all property definitions of an object type (read-only)
+   * GET /crm/v3/properties/{objectType}
    */
-  async getSchema(objectType: string): Promise<HubSpotSchema> {
+  async getProperties(objectType: string): Promise<HubSpotProperty[]> {
+    const path = `/crm/v3/properties/${objectType}`;
     try {
-      const response = await this.client.get<HubSpotSchema>(
-        `/crm/v3/schemas/${objectType}`
-      );
-      return response.data;
+      return await this.cached(`properties-${objectType}`, async () => {
+        try {
+          const response = await this.get<PropertiesResponse>(path);
+          return response.data.results;
+        } catch (error: any) {
+          throw toHubSpotApiError(error, path);
+        }
+      });
     } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `HubSpot API Error (${error.response.status}): ${
-            error.response.data?.message || error.response.statusText
-          }`
-        );
+      if (error instanceof CacheMissError) {
+        const properties = this.findCachedSchema(objectType)?.properties;
+        if (properties) {
+          return properties;
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the property groups of an object type (read-only)
+   * GET /crm/v3/properties/{objectType}/groups
+   */
+  async getPropertyGroups(objectType: string): Promise<HubSpotPropertyGroup[]> {
+    const path = `/crm/v3/properties/${objectType}/groups`;
+    return this.cached(`property-groups-${objectType}`, async () => {
+      try {
+        const response = await this.get<PropertyGroupsResponse>(path);
+        return response.data.results;
+      } catch (error: any) {
+        throw toHubSpotApiError(error, path);
+      }
+    });
+  }
+
+  /**
+   * Fetch a single property definition (read-only)
+   * GET /crm/v3/properties/{objectType}/{propertyName}
+   */
+  async getProperty(objectType: string, propertyName: string): Promise<HubSpotProperty> {
+    const path = `/crm/v3/properties/${objectType}/${propertyName}`;
+    try {
+      return await this.cached(`property-${objectType}-${propertyName}`, async () => {
+        try {
+          const response = await this.get<HubSpotProperty>(path);
+          return response.data;
+        } catch (error: any) {
+          throw toHubSpotApiError(error, path);
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof CacheMissError) {
+        const match = this.findCachedSchema(objectType)?.properties?.find((p) => p.name === propertyName);
+        if (match) {
+          return match;
+        }
       }
       throw error;
     }
   }
 
+  /**
+   * Look up a schema in cached data, for offline fallbacks
+   */
+  private findCachedSchema(objectType: string): HubSpotSchema | undefined {
+    const matches = (s: HubSpotSchema) =>
+      s.name === objectType || s.objectTypeId === objectType || s.fullyQualifiedName === objectType;
+    const single = this.cache?.peek<HubSpotSchema>(`schema-${objectType}`);
+    if (single && matches(single)) {
+      return single;
+    }
+    return this.cache?.peek<HubSpotSchema[]>('schemas')?.find(matches);
+  }
+
   /**
    * Fetch association definitions between two object types (read-only)
    * GET /crm/v4/associations/{fromObjectType}/{toObjectType}/types
@@ -106,25 +345,87 @@ export class HubSpotClient {
     fromObjectType: string,
     toObjectType: string
   ): Promise<AssociationTypesResponse> {
+    const path = `/crm/v4/associations/${fromObjectType}/${toObjectType}/types`;
+    return this.cached(`association-types-${fromObjectType}-${toObjectType}`, async () => {
+      try {
+        const response = await this.get<AssociationTypesResponse>(path);
+        return response.data;
+      } catch (error: any) {
+        throw toHubSpotApiError(error, path);
+      }
+    });
+  }
+
+  /**
+   * Fetch association labels for one direction (read-only)
+   * GET /crm/v4/associations/{fromObjectType}/{toObjectType}/labels
+   */
+  async getAssociationLabels(fromObjectType: string, toObjectType: string): Promise<AssociationLabel[]> {
+    const path = `/crm/v4/associations/${fromObjectType}/${toObjectType}/labels`;
+    return this.cached(`association-labels-${fromObjectType}-${toObjectType}`, async () => {
+      try {
+        const response = await this.get<AssociationLabelsResponse>(path);
+        return response.data.results;
+      } catch (error: any) {
+        throw toHubSpotApiError(error, path);
+      }
+    });
+  }
+
+  /**
+   * Fetch association limits for one direction (read-only)
+   * GET /crm/v4/associations/definitions/configurations/{fromObjectType}/{toObjectType}
+   */
+  async getAssociationConfigurations(fromObjectType: string, toObjectType: string): Promise<AssociationDefinitionConfiguration[]> {
+    const path = `/crm/v4/associations/definitions/configurations/${fromObjectType}/${toObjectType}`;
+    return this.cached(`association-configurations-${fromObjectType}-${toObjectType}`, async () => {
+      try {
+        const response = await this.get<AssociationDefinitionConfigurationsResponse>(path);
+        return response.data.results;
+      } catch (error: any) {
+        throw toHubSpotApiError(error, path);
+      }
+    });
+  }
+
+  /**
+   * Fetch a single record (read-only, never cached)
+   * GET /crm/v3/objects/{objectType}/{recordId}
+   */
+  async getRecord(objectType: string, recordId: string): Promise<HubSpotRecord> {
+    const path = `/crm/v3/objects/${objectType}/${recordId}`;
     try {
-      const response = await this.client.get<AssociationTypesResponse>(
-        `/crm/v4/associations/${fromObjectType}/${toObjectType}/types`
-      );
+      const response = await this.get<HubSpotRecord>(path);
       return response.data;
     } catch (error: any) {
-      if (error.response) {
-        throw new Error(
-          `HubSpot API Error (${error.response.status}): ${
-            error.response.data?.message || error.response.statusText
-          }`
-        );
-      }
-      throw error;
+      throw toHubSpotApiError(error, path);
     }
   }
 
+  /**
+   * Fetch every record of toObjectType associated with one record, following pagination (read-only, never cached)
+   * GET /crm/v4/objects/{objectType}/{recordId}/associations/{toObjectType}
+   */
+  async getRecordAssociations(objectType: string, recordId: string, toObjectType: string): Promise<RecordAssociation[]> {
+    const path = `/crm/v4/objects/${objectType}/${recordId}/associations/${toObjectType}`;
+    const results: RecordAssociation[] = [];
+    let after: string | undefined;
+    try {
+      do {
+        const response = await this.get<RecordAssociationsResponse>(path, { params: { limit: 500, after } });
+        results.push(...response.data.results);
+        after = response.data.paging?.next?.after;
+      } while (after);
+    } catch (error: any) {
+      throw toHubSpotApiError(error, path);
+    }
+    return results;
+  }
+
   /**
    * Verify if an association path is valid (read-only)
+   * Only not-found and validation errors make a path invalid; auth, scope,
+   * rate-limit and server errors are rethrown so callers report them as API errors.
    */
   async verifyAssociationPath(
     fromObjectType: string,
@@ -148,6 +449,9 @@ export class HubSpotClient {
         associationTypes,
       };
     } catch (error: any) {
+      if (!(error instanceof HubSpotNotFoundError) && !(error instanceof HubSpotValidationError)) {
+        throw error;
+      }
       return {
         valid: false,
         path,
@@ -156,3 +460,32 @@ export class HubSpotClient {
     }
   }
 }
+
+/**
+ * Read a numeric header value, or null when missing or malformed
+ */
+function readHeader(headers: any, name: string): number | null {
+  const value = headers?.[name];
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return null;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
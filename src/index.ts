@@ -4,6 +4,27 @@
  */
 
 export { HubSpotClient } from './hubspot-client';
+export { TokenBucket } from './rate-limiter';
+export { SchemaCache, CacheMissError } from './cache';
 export * from './types';
+export * from './errors';
+export * from './snapshot';
+export * from './codegen';
+export * from './validators';
+export * from './property-search';
+export * from './lint';
+export * from './manifest';
+export * from './plan';
+export * from './compare';
+export * from './docs';
+export * from './graph';
+export * from './matrix';
+export * from './association-path';
+export * from './association-labels';
+export * from './request-templates';
+export * from './record-associations';
+export * from './diagnose';
+export * from './error-catalog';
+export * from './output';
 export * from './utils';
 export * from './commands';
@@ -0,0 +1,245 @@
+/**
+ * Schema linter: hygiene rules over object schemas and their properties
+ */
+
+import * as fs from 'fs';
+import { HubSpotSchema, HubSpotProperty } from './types';
+import { ConfigError } from './config';
+import { isPortalScoped } from './utils';
+
+export type LintSeverity = 'error' | 'warning' | 'note';
+
+export type LintRuleSetting = LintSeverity | 'off';
+
+export interface LintRule {
+  id: string;
+  description: string;
+  defaultSeverity: LintRuleSetting;
+  check(schema: HubSpotSchema): Array<{ message: string; property?: string }>;
+}
+
+export interface LintFinding {
+  ruleId: string;
+  severity: LintSeverity;
+  objectType: string;
+  property?: string;
+  message: string;
+}
+
+export interface LintConfig {
+  /** Severity per rule id; rules not listed keep their default */
+  rules: Record<string, LintRuleSetting>;
+}
+
+export const DEFAULT_LINT_CONFIG_FILE = '.hubspot-lint.json';
+
+const SETTINGS: LintRuleSetting[] = ['error', 'warning', 'note', 'off'];
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'missing-primary-display-property',
+    description: 'Custom objects should set a primaryDisplayProperty',
+    defaultSeverity: 'warning',
+    check: (schema) =>
+      isPortalScoped(schema) && !schema.primaryDisplayProperty
+        ? [{ message: `Custom object ${schema.name} has no primaryDisplayProperty` }]
+        : [],
+  },
+  {
+    id: 'required-not-searchable',
+    description: 'Required properties should be searchable',
+    defaultSeverity: 'warning',
+    check: (schema) => {
+      const searchable = new Set(schema.searchableProperties || []);
+      return (schema.requiredProperties || [])
+        .filter((name) => !searchable.has(name))
+        .map((name) => ({ property: name, message: `Required property ${schema.name}.${name} is not searchable` }));
+    },
+  },
+  {
+    id: 'all-options-hidden',
+    description: 'Enumeration properties should have at least one visible option',
+    defaultSeverity: 'warning',
+    check: (schema) =>
+      properties(schema)
+        .filter((prop) => prop.type === 'enumeration' && (prop.options || []).length > 0)
+        .filter((prop) => prop.options!.every((option) => option.hidden))
+        .map((prop) => ({
+          property: prop.name,
+          message: `All ${prop.options!.length} options of ${schema.name}.${prop.name} are hidden`,
+        })),
+  },
+  {
+    id: 'duplicate-property-label',
+    description: 'Custom property labels should be unique within an object',
+    defaultSeverity: 'error',
+    check: (schema) => {
+      const byLabel = new Map<string, HubSpotProperty[]>();
+      properties(schema).forEach((prop) => {
+        const key = (prop.label || '').trim().toLowerCase();
+        if (key) {
+          byLabel.set(key, [...(byLabel.get(key) || []), prop]);
+        }
+      });
+      // HubSpot's own properties share labels out of the box; only a custom property makes it a finding
+      return [...byLabel.values()]
+        .filter((props) => props.length > 1 && props.some((prop) => !prop.hubspotDefined))
+        .map((props) => ({
+          property: props[0].name,
+          message: `Label "${props[0].label}" is used by ${props.length} properties of ${schema.name}: ${props.map((p) => p.name).join(', ')}`,
+        }));
+    },
+  },
+  {
+    id: 'missing-description',
+    description: 'Custom properties should have a description',
+    defaultSeverity: 'note',
+    check: (schema) =>
+      properties(schema)
+        .filter((prop) => !prop.hubspotDefined && !(prop.description || '').trim())
+        .map((prop) => ({ property: prop.name, message: `Custom property ${schema.name}.${prop.name} has no description` })),
+  },
+  {
+    id: 'label-name-mismatch',
+    description: 'Custom object labels should match the internal name used in API paths',
+    defaultSeverity: 'warning',
+    check: (schema) => {
+      if (!isPortalScoped(schema)) {
+        return [];
+      }
+      const name = normalizeName(schema.name.replace(/^p\d+_/, ''));
+      const labels = [schema.labels.singular, schema.labels.plural].map(normalizeName);
+      return labels.includes(name)
+        ? []
+        : [{
+            message: `Object labeled "${schema.labels.singular}" is called ${schema.name} in API paths - calls using the label will fail`,
+          }];
+    },
+  },
+  {
+    id: 'archived-restorable',
+    description: 'Archived objects that can still be restored should be restored or purged',
+    defaultSeverity: 'note',
+    check: (schema) =>
+      schema.archived && schema.restorable
+        ? [{ message: `Object ${schema.name} is archived but still restorable` }]
+        : [],
+  },
+];
+
+function properties(schema: HubSpotSchema): HubSpotProperty[] {
+  return [...(schema.properties || [])].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function normalizeName(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '');
+}
+
+/**
+ * Load rule severities from a JSON config file
+ * Without an explicit file, .hubspot-lint.json in the working directory is used when present.
+ */
+export function loadLintConfig(file?: string): LintConfig {
+  const target = file || DEFAULT_LINT_CONFIG_FILE;
+  if (!file && !fs.existsSync(target)) {
+    return { rules: {} };
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(target, 'utf8'));
+  } catch (error: any) {
+    throw new ConfigError(`Invalid lint config ${target}: ${error.message}`);
+  }
+
+  const rules: Record<string, LintRuleSetting> = parsed.rules || {};
+  Object.entries(rules).forEach(([id, setting]) => {
+    if (!LINT_RULES.some((rule) => rule.id === id)) {
+      throw new ConfigError(
+        `Unknown lint rule "${id}" in ${target}`,
+        'List rules with: hubspot-crm lint --list-rules'
+      );
+    }
+    if (!SETTINGS.includes(setting)) {
+      throw new ConfigError(`Invalid severity "${setting}" for rule "${id}" in ${target} (expected ${SETTINGS.join(', ')})`);
+    }
+  });
+  return { rules };
+}
+
+/**
+ * Severity of a rule after applying the config
+ */
+export function ruleSetting(rule: LintRule, config: LintConfig): LintRuleSetting {
+  return config.rules[rule.id] || rule.defaultSeverity;
+}
+
+/**
+ * Run every enabled rule over the schemas
+ */
+export function lintSchemas(schemas: HubSpotSchema[], config: LintConfig = { rules: {} }): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const sorted = [...schemas].sort((a, b) => a.name.localeCompare(b.name));
+
+  LINT_RULES.forEach((rule) => {
+    const severity = ruleSetting(rule, config);
+    if (severity === 'off') {
+      return;
+    }
+    sorted.forEach((schema) => {
+      rule.check(schema).forEach((result) => {
+        findings.push({ ruleId: rule.id, severity, objectType: schema.name, ...result });
+      });
+    });
+  });
+
+  const order: Record<LintSeverity, number> = { error: 0, warning: 1, note: 2 };
+  return findings.sort(
+    (a, b) => order[a.severity] - order[b.severity] || a.objectType.localeCompare(b.objectType)
+  );
+}
+
+/**
+ * SARIF 2.1.0 log for CI code-scanning annotations
+ * Code scanning only keeps results with a physical location, so pass the file the rules ran
+ * against (a snapshot, or the lint config for a live portal); without one, results are logical-only.
+ */
+export function toSarif(findings: LintFinding[], config: LintConfig = { rules: {} }, artifactUri?: string): Record<string, unknown> {
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'hubspot-crm lint',
+            rules: LINT_RULES.map((rule) => {
+              const setting = ruleSetting(rule, config);
+              return {
+                id: rule.id,
+                shortDescription: { text: rule.description },
+                defaultConfiguration: setting === 'off' ? { enabled: false } : { level: setting },
+              };
+            }),
+          },
+        },
+        results: findings.map((finding) => ({
+          ruleId: finding.ruleId,
+          level: finding.severity,
+          message: { text: finding.message },
+          locations: [
+            {
+              ...(artifactUri ? { physicalLocation: { artifactLocation: { uri: artifactUri }, region: { startLine: 1 } } } : {}),
+              logicalLocations: [
+                {
+                  fullyQualifiedName: finding.property ? `${finding.objectType}.${finding.property}` : finding.objectType,
+                  kind: finding.property ? 'member' : 'type',
+                },
+              ],
+            },
+          ],
+        })),
+      },
+    ],
+  };
+}
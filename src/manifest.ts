@@ -0,0 +1,194 @@
+/**
+ * Declarative data-model manifests and expectation checks
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { HubSpotProperty, AssociationDefinition } from './types';
+
+export interface ManifestOption {
+  value: string;
+  label?: string;
+}
+
+export interface ManifestProperty {
+  name: string;
+  type?: string;
+  fieldType?: string;
+  /** Used when planning a create */
+  label?: string;
+  groupName?: string;
+  description?: string;
+  /** Exact set of options expected on an enumeration (values, or value/label pairs) */
+  options?: ManifestOption[];
+}
+
+export interface ManifestObject {
+  /** Internal name or label */
+  name: string;
+  /** The remaining fields are only used when planning a create */
+  labels?: { singular: string; plural: string };
+  primaryDisplayProperty?: string;
+  requiredProperties?: string[];
+  searchableProperties?: string[];
+  properties?: ManifestProperty[];
+}
+
+export interface ManifestAssociation {
+  from: string;
+  to: string;
+  category?: string;
+  label?: string;
+}
+
+export interface Manifest {
+  objects: ManifestObject[];
+  associations: ManifestAssociation[];
+}
+
+/**
+ * pass - matches the manifest
+ * fail - missing from the portal
+ * drift - present, but different from the manifest
+ */
+export type CheckStatus = 'pass' | 'fail' | 'drift';
+
+export interface CheckResult {
+  kind: 'object' | 'property' | 'association';
+  /** e.g. "contacts", "contacts.lifecyclestage" or "contacts → p123_listings" */
+  subject: string;
+  status: CheckStatus;
+  message: string;
+  expected?: unknown;
+  actual?: unknown;
+}
+
+/**
+ * Load a YAML or JSON manifest (by file extension) and validate its shape
+ */
+export function loadManifest(file: string): Manifest {
+  const raw = fs.readFileSync(file, 'utf8');
+  let parsed: any;
+  try {
+    parsed = path.extname(file).toLowerCase() === '.json' ? JSON.parse(raw) : parseYaml(raw);
+  } catch (error: any) {
+    throw new Error(`Invalid manifest ${file}: ${error.message}`);
+  }
+  return validateManifest(parsed, file);
+}
+
+function validateManifest(parsed: any, file: string): Manifest {
+  const fail = (message: string): never => {
+    throw new Error(`Invalid manifest ${file}: ${message}`);
+  };
+  if (!parsed || typeof parsed !== 'object') {
+    fail('expected an object with "objects" and/or "associations"');
+  }
+
+  const objects = parsed.objects || [];
+  const associations = parsed.associations || [];
+  if (!Array.isArray(objects)) fail('"objects" must be a list');
+  if (!Array.isArray(associations)) fail('"associations" must be a list');
+
+  objects.forEach((object: any, i: number) => {
+    if (!object || typeof object.name !== 'string') fail(`objects[${i}] needs a "name"`);
+    if (object.properties !== undefined && !Array.isArray(object.properties)) fail(`objects[${i}].properties must be a list`);
+    (object.properties || []).forEach((prop: any, j: number) => {
+      if (!prop || typeof prop.name !== 'string') fail(`objects[${i}].properties[${j}] needs a "name"`);
+      if (prop.options !== undefined && !Array.isArray(prop.options)) fail(`objects[${i}].properties[${j}].options must be a list`);
+    });
+  });
+  associations.forEach((assoc: any, i: number) => {
+    if (!assoc || typeof assoc.from !== 'string' || typeof assoc.to !== 'string') {
+      fail(`associations[${i}] needs "from" and "to"`);
+    }
+  });
+
+  return {
+    objects: objects.map((object: any) => ({
+      ...object,
+      properties: (object.properties || []).map((prop: any) => ({
+        ...prop,
+        ...(prop.options
+          ? { options: prop.options.map((o: any) => (o && typeof o === 'object' ? { value: String(o.value), label: o.label } : { value: String(o) })) }
+          : {}),
+      })),
+    })),
+    associations,
+  };
+}
+
+/**
+ * Compare an expected property with the portal's definition (undefined when missing)
+ */
+export function checkProperty(objectName: string, expected: ManifestProperty, actual?: HubSpotProperty): CheckResult {
+  const subject = `${objectName}.${expected.name}`;
+  if (!actual) {
+    return { kind: 'property', subject, status: 'fail', message: `Property ${subject} does not exist` };
+  }
+
+  const differences: string[] = [];
+  if (expected.type && expected.type !== actual.type) {
+    differences.push(`type is ${actual.type}, expected ${expected.type}`);
+  }
+  if (expected.fieldType && expected.fieldType !== actual.fieldType) {
+    differences.push(`fieldType is ${actual.fieldType}, expected ${expected.fieldType}`);
+  }
+  if (expected.options) {
+    const actualValues = (actual.options || []).map((o) => o.value);
+    const expectedValues = expected.options.map((o) => o.value);
+    const missing = expectedValues.filter((v) => !actualValues.includes(v));
+    const extra = actualValues.filter((v) => !expectedValues.includes(v));
+    if (missing.length > 0) differences.push(`missing options ${missing.join(', ')}`);
+    if (extra.length > 0) differences.push(`unexpected options ${extra.join(', ')}`);
+  }
+
+  if (differences.length > 0) {
+    return {
+      kind: 'property',
+      subject,
+      status: 'drift',
+      message: `Property ${subject}: ${differences.join('; ')}`,
+      expected,
+      actual: { type: actual.type, fieldType: actual.fieldType, options: (actual.options || []).map((o) => o.value) },
+    };
+  }
+  return { kind: 'property', subject, status: 'pass', message: `Property ${subject} matches` };
+}
+
+/**
+ * Compare an expected association with the pair's association types (null when the pair has none)
+ */
+export function checkAssociation(
+  subject: string,
+  expected: ManifestAssociation,
+  types: AssociationDefinition[] | null
+): CheckResult {
+  if (!types || types.length === 0) {
+    return { kind: 'association', subject, status: 'fail', message: `No association defined for ${subject}` };
+  }
+
+  const matches = types.filter(
+    (t) =>
+      (!expected.category || t.associationCategory === expected.category) &&
+      (expected.label === undefined || (t.name || '').toLowerCase() === expected.label.toLowerCase())
+  );
+  if (matches.length === 0) {
+    const wanted = [expected.category, expected.label !== undefined ? `label "${expected.label}"` : null].filter(Boolean).join(' ');
+    return {
+      kind: 'association',
+      subject,
+      status: 'drift',
+      message: `Association ${subject} has no ${wanted} type`,
+      expected: { category: expected.category, label: expected.label },
+      actual: types.map((t) => ({ category: t.associationCategory, label: t.name || null, associationTypeId: t.associationTypeId })),
+    };
+  }
+  return {
+    kind: 'association',
+    subject,
+    status: 'pass',
+    message: `Association ${subject} defined (typeId ${matches.map((t) => t.associationTypeId).join(', ')})`,
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Association matrix: association types for every ordered pair of objects
+ */
+
+import { SchemaSnapshot } from './snapshot';
+import { isPortalScoped, STANDARD_OBJECTS } from './utils';
+
+export interface AssociationMatrixCell {
+  from: string;
+  to: string;
+  defined: boolean;
+  /** Number of association types from → to */
+  total: number;
+  /** Types carrying a label */
+  labeled: number;
+  hubspotDefined: number;
+  userDefined: number;
+  typeIds: number[];
+  labels: string[];
+}
+
+export interface AssociationMatrix {
+  /** Standard objects first, then custom objects, each alphabetical */
+  objects: string[];
+  /** Row-major: cells[i * objects.length + j] is objects[i] → objects[j] */
+  cells: AssociationMatrixCell[];
+}
+
+/**
+ * Lay out a snapshot's association types as a grid of object pairs
+ * Standard objects are always included; older snapshots may only hold custom schemas.
+ */
+export function buildAssociationMatrix(snapshot: SchemaSnapshot): AssociationMatrix {
+  const custom = new Set(snapshot.schemas.filter(isPortalScoped).map((schema) => schema.name));
+  const objects = [...new Set([...snapshot.schemas.map((schema) => schema.name), ...STANDARD_OBJECTS])].sort((a, b) =>
+    custom.has(a) !== custom.has(b) ? (custom.has(a) ? 1 : -1) : a.localeCompare(b)
+  );
+  const pairs = new Map(snapshot.associationTypes.map((pair) => [`${pair.fromObjectType}|${pair.toObjectType}`, pair.types]));
+
+  const cells: AssociationMatrixCell[] = [];
+  objects.forEach((from) => {
+    objects.forEach((to) => {
+      const types = pairs.get(`${from}|${to}`) || [];
+      cells.push({
+        from,
+        to,
+        defined: types.length > 0,
+        total: types.length,
+        labeled: types.filter((t) => !!t.name).length,
+        hubspotDefined: types.filter((t) => t.associationCategory === 'HUBSPOT_DEFINED').length,
+        userDefined: types.filter((t) => t.associationCategory === 'USER_DEFINED').length,
+        typeIds: types.map((t) => t.associationTypeId).sort((a, b) => a - b),
+        labels: types.filter((t) => !!t.name).map((t) => t.name!),
+      });
+    });
+  });
+
+  return { objects, cells };
+}
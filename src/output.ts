@@ -0,0 +1,160 @@
+/**
+ * Output renderers
+ *
+ * Each command hands one structured result to the renderer, which prints it as
+ * text, a table, JSON, NDJSON, YAML or CSV. JSON and YAML are wrapped in a
+ * versioned envelope so scripts can rely on its shape.
+ */
+
+import chalk from 'chalk';
+import { stringify as toYaml } from 'yaml';
+import { OutputFormat } from './config';
+
+/**
+ * Bumped whenever the envelope itself changes shape
+ */
+export const OUTPUT_SCHEMA_VERSION = 1;
+
+export interface CommandResult<T = unknown> {
+  data: T;
+  /** Flat records for table, CSV and NDJSON output */
+  rows?: object[];
+  /** Column order for table and CSV output (default: keys of the first row) */
+  columns?: string[];
+  /** Human-readable rendering for text output */
+  text?: () => string;
+  /** Command-specific table, used instead of the generic one built from rows */
+  table?: () => string;
+}
+
+export interface OutputEnvelope<T = unknown> {
+  schemaVersion: number;
+  /** Command path, e.g. "schemas" or "profiles list" */
+  command: string | null;
+  ok: boolean;
+  data?: T;
+  error?: unknown;
+}
+
+/**
+ * Formats that print data for machines rather than people
+ */
+export function isStructuredFormat(format?: OutputFormat): boolean {
+  return !!format && format !== 'text' && format !== 'table';
+}
+
+/**
+ * Drop colors for structured output, when stdout is not a terminal, or when NO_COLOR is set.
+ * FORCE_COLOR keeps colors on regardless.
+ */
+export function configureColors(format?: OutputFormat): void {
+  if (process.env.FORCE_COLOR) {
+    return;
+  }
+  if (isStructuredFormat(format) || !process.stdout.isTTY || process.env.NO_COLOR !== undefined) {
+    chalk.level = 0;
+  }
+}
+
+export function outputEnvelope<T>(command: string | null, data: T): OutputEnvelope<T> {
+  return { schemaVersion: OUTPUT_SCHEMA_VERSION, command, ok: true, data };
+}
+
+export function errorEnvelope(command: string | null, error: unknown): OutputEnvelope {
+  return { schemaVersion: OUTPUT_SCHEMA_VERSION, command, ok: false, error };
+}
+
+/**
+ * Render a failure in a structured format; YAML stays YAML, everything else gets JSON
+ */
+export function renderError(error: unknown, format: OutputFormat, command: string | null = null): string {
+  const envelope = errorEnvelope(command, error);
+  if (format === 'yaml') {
+    return toYaml(envelope).trimEnd();
+  }
+  return format === 'json' ? JSON.stringify(envelope, null, 2) : JSON.stringify(envelope);
+}
+
+/**
+ * Render a command result in the requested format
+ */
+export function renderResult(result: CommandResult, format: OutputFormat, command: string | null = null): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(outputEnvelope(command, result.data), null, 2);
+    case 'yaml':
+      return toYaml(outputEnvelope(command, result.data)).trimEnd();
+    case 'ndjson':
+      return result.rows
+        ? result.rows.map((row) => JSON.stringify(row)).join('\n')
+        : JSON.stringify(outputEnvelope(command, result.data));
+    case 'csv':
+      if (!result.rows) {
+        throw new Error(`CSV output is not available for ${command || 'this command'}`);
+      }
+      return renderCsv(result.rows, result.columns);
+    case 'table':
+      if (result.table) {
+        return result.table();
+      }
+      return result.rows ? renderTable(result.rows, result.columns) : toYaml(result.data).trimEnd();
+    default:
+      if (result.text) {
+        return result.text();
+      }
+      return result.rows ? renderTable(result.rows, result.columns) : toYaml(result.data).trimEnd();
+  }
+}
+
+/**
+ * Aligned plain-text table with a bold header row
+ */
+export function renderTable(rows: object[], columns?: string[]): string {
+  const keys = columns || Object.keys(rows[0] || {});
+  if (rows.length === 0) {
+    return chalk.yellow('No results.');
+  }
+
+  const cells = rows.map((row) => keys.map((key) => cellText(field(row, key))));
+  const widths = keys.map((key, i) => Math.max(headerText(key).length, ...cells.map((r) => r[i].length)));
+  const line = (values: string[]) => values.map((v, i) => v.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [
+    chalk.bold(line(keys.map((key) => headerText(key)))),
+    line(widths.map((w) => '-'.repeat(w))),
+    ...cells.map(line),
+  ].join('\n');
+}
+
+/**
+ * RFC 4180 CSV with a header row
+ */
+export function renderCsv(rows: object[], columns?: string[]): string {
+  const keys = columns || Object.keys(rows[0] || {});
+  const quote = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  return [keys.map(quote).join(','), ...rows.map((row) => keys.map((key) => quote(cellText(field(row, key)))).join(','))].join('\n');
+}
+
+function field(row: object, key: string): unknown {
+  return (row as Record<string, unknown>)[key];
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(cellText).join('; ');
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value).replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * camelCase column keys become upper-case headers: objectTypeId -> OBJECT TYPE ID
+ */
+function headerText(key: string): string {
+  return key.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toUpperCase();
+}
@@ -0,0 +1,310 @@
+/**
+ * Read-only plans: the HubSpot API calls that would converge a portal on a manifest
+ */
+
+import { HubSpotProperty, AssociationDefinition } from './types';
+import { Manifest, ManifestObject, ManifestProperty, ManifestOption, checkProperty } from './manifest';
+
+export interface PlanStep {
+  method: 'POST' | 'PATCH';
+  path: string;
+  description: string;
+  body: Record<string, unknown>;
+}
+
+export interface SchemaPlan {
+  steps: PlanStep[];
+  /** Expectations the plan cannot satisfy, or values the plan had to guess */
+  warnings: string[];
+}
+
+export type PlanFormat = 'shell' | 'json' | 'http';
+
+export interface PortalObjectState {
+  /** Internal name, or null when the object does not exist yet */
+  internalName: string | null;
+  objectTypeId?: string;
+  properties: HubSpotProperty[];
+  /** Group for new properties when the manifest names none */
+  defaultGroup?: string;
+}
+
+export interface PortalState {
+  /** Keyed by the manifest's object name */
+  objects: Map<string, PortalObjectState>;
+  /** Association types keyed by `associationKey(from, to)` of manifest names; null when the pair has none */
+  associations: Map<string, AssociationDefinition[] | null>;
+}
+
+const DEFAULT_FIELD_TYPES: Record<string, string> = {
+  string: 'text',
+  number: 'number',
+  enumeration: 'select',
+  date: 'date',
+  datetime: 'date',
+  bool: 'booleancheckbox',
+  phone_number: 'phonenumber',
+};
+
+export function associationKey(from: string, to: string): string {
+  return `${from}→${to}`;
+}
+
+/**
+ * Placeholder for an objectTypeId that only exists once an earlier step has run
+ */
+export function objectTypeIdPlaceholder(name: string): string {
+  return `{{objectTypeId:${name}}}`;
+}
+
+/**
+ * Ordered calls: object creates, property creates, property patches, association
+ * definitions, then association labels
+ */
+export function buildPlan(manifest: Manifest, state: PortalState): SchemaPlan {
+  const creates: PlanStep[] = [];
+  const propertyCreates: PlanStep[] = [];
+  const propertyPatches: PlanStep[] = [];
+  const associationCreates: PlanStep[] = [];
+  const labelCreates: PlanStep[] = [];
+  const warnings: string[] = [];
+
+  const nameOf = (input: string) => state.objects.get(input)?.internalName || newObjectName(input);
+  const typeIdOf = (input: string) => state.objects.get(input)?.objectTypeId || objectTypeIdPlaceholder(nameOf(input));
+
+  manifest.objects.forEach((expected) => {
+    const object = state.objects.get(expected.name);
+    if (!object || !object.internalName) {
+      creates.push(schemaCreateStep(expected, warnings));
+      return;
+    }
+    const internalName = object.internalName;
+
+    (expected.properties || []).forEach((prop) => {
+      const actual = object.properties.find((p) => p.name === prop.name);
+      if (!actual) {
+        const body = propertyBody(prop, `${internalName}.${prop.name}`, warnings);
+        if (body) {
+          body.groupName = prop.groupName || object.defaultGroup || `${internalName}_information`;
+          propertyCreates.push({
+            method: 'POST',
+            path: `/crm/v3/properties/${internalName}`,
+            description: `Create property ${internalName}.${prop.name}`,
+            body,
+          });
+        }
+        return;
+      }
+
+      const patch = propertyPatch(prop, actual, `${internalName}.${prop.name}`, warnings);
+      if (patch) {
+        propertyPatches.push({
+          method: 'PATCH',
+          path: `/crm/v3/properties/${internalName}/${prop.name}`,
+          description: checkProperty(internalName, prop, actual).message,
+          body: patch,
+        });
+      }
+    });
+  });
+
+  manifest.associations.forEach((expected) => {
+    const from = nameOf(expected.from);
+    const to = nameOf(expected.to);
+    const subject = `${from} → ${to}`;
+    const types = state.associations.get(associationKey(expected.from, expected.to)) || null;
+
+    if (expected.category && expected.category !== 'USER_DEFINED' && !(types || []).some((t) => t.associationCategory === expected.category)) {
+      warnings.push(`${subject}: ${expected.category} association types cannot be created through the API`);
+      return;
+    }
+
+    if (!types || types.length === 0) {
+      associationCreates.push({
+        method: 'POST',
+        path: `/crm/v3/schemas/${typeIdOf(expected.from)}/associations`,
+        description: `Define association ${subject}`,
+        body: { fromObjectTypeId: typeIdOf(expected.from), toObjectTypeId: typeIdOf(expected.to) },
+      });
+    }
+
+    const labelExists = (types || []).some((t) => (t.name || '').toLowerCase() === (expected.label || '').toLowerCase());
+    if (expected.label && !labelExists) {
+      labelCreates.push({
+        method: 'POST',
+        path: `/crm/v4/associations/${typeIdOf(expected.from)}/${typeIdOf(expected.to)}/labels`,
+        description: `Create association label "${expected.label}" for ${subject}`,
+        body: { label: expected.label, name: snakeCase(expected.label) },
+      });
+    }
+  });
+
+  const steps = [...creates, ...propertyCreates, ...propertyPatches, ...associationCreates, ...labelCreates];
+  if (steps.some((step) => JSON.stringify(step).includes('{{objectTypeId:'))) {
+    warnings.push('Replace {{objectTypeId:<name>}} placeholders with the objectTypeId returned by the matching POST /crm/v3/schemas call');
+  }
+  return { steps, warnings };
+}
+
+function schemaCreateStep(expected: ManifestObject, warnings: string[]): PlanStep {
+  const name = newObjectName(expected.name);
+  const properties = (expected.properties || [])
+    .map((prop) => propertyBody(prop, `${name}.${prop.name}`, warnings))
+    .filter((body): body is Record<string, unknown> => body !== null);
+
+  const labels = expected.labels || { singular: titleCase(expected.name), plural: `${titleCase(expected.name)}s` };
+  if (!expected.labels) {
+    warnings.push(`${name}: no labels in the manifest, using "${labels.singular}" / "${labels.plural}"`);
+  }
+
+  const primaryDisplayProperty = expected.primaryDisplayProperty || (properties[0]?.name as string | undefined);
+  if (!primaryDisplayProperty) {
+    warnings.push(`${name}: HubSpot requires a primaryDisplayProperty - add at least one property to the manifest`);
+  }
+  const requiredProperties = expected.requiredProperties || (primaryDisplayProperty ? [primaryDisplayProperty] : []);
+
+  return {
+    method: 'POST',
+    path: '/crm/v3/schemas',
+    description: `Create custom object ${name}`,
+    body: {
+      name,
+      labels,
+      primaryDisplayProperty,
+      requiredProperties,
+      searchableProperties: expected.searchableProperties || requiredProperties,
+      properties,
+      associatedObjects: [],
+    },
+  };
+}
+
+/**
+ * Property create body, or null when the manifest does not say enough to create it
+ */
+function propertyBody(prop: ManifestProperty, subject: string, warnings: string[]): Record<string, unknown> | null {
+  if (!prop.type) {
+    warnings.push(`${subject}: cannot plan a create without a type`);
+    return null;
+  }
+
+  const body: Record<string, unknown> = {
+    name: prop.name,
+    label: prop.label || titleCase(prop.name),
+    type: prop.type,
+    fieldType: prop.fieldType || DEFAULT_FIELD_TYPES[prop.type] || 'text',
+  };
+  if (prop.groupName) {
+    body.groupName = prop.groupName;
+  }
+  if (prop.description) {
+    body.description = prop.description;
+  }
+  if (prop.options) {
+    body.options = optionBodies(prop.options);
+  }
+  return body;
+}
+
+/**
+ * PATCH body bringing a property in line with the manifest, or null when it already matches
+ * Options are sent as the full list, since HubSpot replaces it: manifest options first (keeping
+ * labels of options that already exist), then existing options the manifest does not list.
+ */
+function propertyPatch(prop: ManifestProperty, actual: HubSpotProperty, subject: string, warnings: string[]): Record<string, unknown> | null {
+  const patch: Record<string, unknown> = {};
+  if (prop.type && prop.type !== actual.type) {
+    patch.type = prop.type;
+  }
+  if (prop.fieldType && prop.fieldType !== actual.fieldType) {
+    patch.fieldType = prop.fieldType;
+  }
+  if (prop.options) {
+    const actualValues = (actual.options || []).map((o) => o.value);
+    if (prop.options.some((o) => !actualValues.includes(o.value))) {
+      const listed = prop.options.map((o) => o.value);
+      const kept = (actual.options || []).filter((o) => !listed.includes(o.value)).map((o) => ({ value: o.value, label: o.label }));
+      if (kept.length > 0) {
+        warnings.push(`${subject}: keeping options not in the manifest (${kept.map((o) => o.value).join(', ')}); remove them in HubSpot if they should go`);
+      }
+      patch.options = optionBodies([...prop.options, ...kept], actual);
+    }
+  }
+  return Object.keys(patch).length > 0 ? patch : null;
+}
+
+function optionBodies(options: ManifestOption[], actual?: HubSpotProperty): Array<Record<string, unknown>> {
+  return options.map((option, index) => {
+    const existing = actual?.options?.find((o) => o.value === option.value);
+    return {
+      label: option.label || existing?.label || titleCase(option.value),
+      value: option.value,
+      displayOrder: index,
+      hidden: existing?.hidden ?? false,
+    };
+  });
+}
+
+/**
+ * Render a plan as curl commands, JSON, or an .http file (REST Client / JetBrains HTTP client)
+ */
+export function renderPlan(plan: SchemaPlan, format: PlanFormat, baseUrl: string): string {
+  if (format === 'json') {
+    return JSON.stringify({ steps: plan.steps, warnings: plan.warnings, total: plan.steps.length, writeOperationsPerformed: false }, null, 2);
+  }
+
+  const lines: string[] = [];
+  if (format === 'http') {
+    lines.push('# Generated by hubspot-crm plan - review before sending');
+    lines.push(`@baseUrl = ${baseUrl}`);
+    lines.push('@token = {{$processEnv HUBSPOT_ACCESS_TOKEN}}');
+    plan.warnings.forEach((warning) => lines.push(`# WARNING: ${warning}`));
+    plan.steps.forEach((step, index) => {
+      lines.push('');
+      lines.push(`### ${index + 1}. ${step.description}`);
+      lines.push(`${step.method} {{baseUrl}}${step.path}`);
+      lines.push('Authorization: Bearer {{token}}');
+      lines.push('Content-Type: application/json');
+      lines.push('');
+      lines.push(JSON.stringify(step.body, null, 2));
+    });
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  lines.push('#!/bin/sh');
+  lines.push('# Generated by hubspot-crm plan - review before running');
+  lines.push('set -e');
+  plan.warnings.forEach((warning) => lines.push(`# WARNING: ${warning}`));
+  plan.steps.forEach((step, index) => {
+    lines.push('');
+    lines.push(`# ${index + 1}. ${step.description}`);
+    lines.push(`curl -sS -X ${step.method} '${baseUrl}${step.path}' \\`);
+    lines.push(`  -H "Authorization: Bearer $HUBSPOT_ACCESS_TOKEN" \\`);
+    lines.push(`  -H 'Content-Type: application/json' \\`);
+    lines.push(`  -d '${JSON.stringify(step.body).replace(/'/g, `'\\''`)}'`);
+  });
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Internal name for an object the plan creates
+ */
+function newObjectName(input: string): string {
+  return snakeCase(input);
+}
+
+function snakeCase(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+function titleCase(value: string): string {
+  return value
+    .replace(/[_\-]+/g, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(' ');
+}
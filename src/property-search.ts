@@ -0,0 +1,160 @@
+/**
+ * Cross-object property search
+ */
+
+import { HubSpotClient } from './hubspot-client';
+import { HubSpotSchema, HubSpotProperty } from './types';
+import { HubSpotApiError } from './errors';
+import { STANDARD_OBJECTS, mapWithConcurrency } from './utils';
+
+export interface PropertySearchFilters {
+  type?: string;
+  fieldType?: string;
+  /** Only properties that are not HubSpot-defined */
+  customOnly?: boolean;
+  group?: string;
+}
+
+export interface PropertySearchResult {
+  objectType: string;
+  objectLabel: string;
+  property: HubSpotProperty;
+  score: number;
+  /** Which field matched best: name, label, description or option */
+  matchedOn: 'name' | 'label' | 'description' | 'option';
+  /** Matching option label or value, when matchedOn is "option" */
+  matchedOption?: string;
+}
+
+export interface SearchableObject {
+  objectType: string;
+  label: string;
+  properties: HubSpotProperty[];
+}
+
+/**
+ * Collect properties of every schema plus the standard objects missing from /crm/v3/schemas
+ * Standard objects the token cannot read are skipped and reported.
+ */
+export async function collectSearchableObjects(
+  client: HubSpotClient,
+  concurrency: number = 4
+): Promise<{ objects: SearchableObject[]; skipped: Array<{ objectType: string; reason: string }> }> {
+  const schemas = await client.getSchemas();
+  const objects: SearchableObject[] = schemas.map((schema: HubSpotSchema) => ({
+    objectType: schema.name,
+    label: schema.labels.singular,
+    properties: schema.properties || [],
+  }));
+
+  const missing = STANDARD_OBJECTS.filter((name) => !schemas.some((s) => s.name === name));
+  const skipped: Array<{ objectType: string; reason: string }> = [];
+
+  const fetched = await mapWithConcurrency(missing, concurrency, async (objectType) => {
+    try {
+      return { objectType, label: objectType, properties: await client.getProperties(objectType) };
+    } catch (error: any) {
+      if (error instanceof HubSpotApiError && error.status !== 429 && error.status < 500) {
+        skipped.push({ objectType, reason: error.message });
+        return null;
+      }
+      throw error;
+    }
+  });
+
+  fetched.forEach((object) => {
+    if (object) {
+      objects.push(object);
+    }
+  });
+
+  skipped.sort((a, b) => a.objectType.localeCompare(b.objectType));
+  return { objects, skipped };
+}
+
+/**
+ * Search property names, labels, descriptions and option labels, best matches first
+ */
+export function searchProperties(
+  objects: SearchableObject[],
+  query: string,
+  filters: PropertySearchFilters = {}
+): PropertySearchResult[] {
+  const needle = normalize(query);
+  const words = needle.split(' ').filter(Boolean);
+  const results: PropertySearchResult[] = [];
+
+  objects.forEach((object) => {
+    object.properties.filter((prop) => matchesFilters(prop, filters)).forEach((prop) => {
+      const match = scoreProperty(prop, needle, words);
+      if (match) {
+        results.push({ objectType: object.objectType, objectLabel: object.label, property: prop, ...match });
+      }
+    });
+  });
+
+  return results.sort(
+    (a, b) =>
+      b.score - a.score ||
+      a.objectType.localeCompare(b.objectType) ||
+      a.property.name.localeCompare(b.property.name)
+  );
+}
+
+function matchesFilters(prop: HubSpotProperty, filters: PropertySearchFilters): boolean {
+  if (filters.type && prop.type !== filters.type) return false;
+  if (filters.fieldType && prop.fieldType !== filters.fieldType) return false;
+  if (filters.customOnly && prop.hubspotDefined) return false;
+  if (filters.group && prop.groupName !== filters.group) return false;
+  return true;
+}
+
+/**
+ * Lowercase and treat underscores, dashes and runs of whitespace as single spaces,
+ * so "renewal date" matches "renewal_date"
+ */
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[_\-\s]+/g, ' ').trim();
+}
+
+function scoreProperty(
+  prop: HubSpotProperty,
+  needle: string,
+  words: string[]
+): Pick<PropertySearchResult, 'score' | 'matchedOn' | 'matchedOption'> | null {
+  const name = normalize(prop.name);
+  const label = normalize(prop.label || '');
+  const description = normalize(prop.description || '');
+
+  const candidates: Array<Pick<PropertySearchResult, 'score' | 'matchedOn' | 'matchedOption'>> = [];
+  const scoreText = (text: string, exact: number, prefix: number, contains: number, allWords: number) => {
+    if (!text) return 0;
+    if (text === needle) return exact;
+    if (text.startsWith(needle)) return prefix;
+    if (text.includes(needle)) return contains;
+    if (words.length > 1 && words.every((word) => text.includes(word))) return allWords;
+    return 0;
+  };
+
+  const nameScore = scoreText(name, 100, 80, 60, 40);
+  if (nameScore) candidates.push({ score: nameScore, matchedOn: 'name' });
+
+  const labelScore = scoreText(label, 95, 75, 55, 35);
+  if (labelScore) candidates.push({ score: labelScore, matchedOn: 'label' });
+
+  const descriptionScore = scoreText(description, 25, 25, 20, 15);
+  if (descriptionScore) candidates.push({ score: descriptionScore, matchedOn: 'description' });
+
+  for (const option of prop.options || []) {
+    const optionScore = Math.max(scoreText(normalize(option.label), 30, 25, 20, 10), scoreText(normalize(option.value), 30, 25, 20, 10));
+    if (optionScore) {
+      candidates.push({ score: optionScore, matchedOn: 'option', matchedOption: option.label });
+      break;
+    }
+  }
+
+  if (candidates.length === 0) {
+    return null;
+  }
+  return candidates.reduce((best, c) => (c.score > best.score ? c : best));
+}
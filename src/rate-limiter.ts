@@ -0,0 +1,80 @@
+/**
+ * Client-side rate limiting for HubSpot API requests
+ */
+
+/**
+ * Resolve after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Token bucket limiter
+ *
+ * Tokens refill continuously at `ratePerSecond` up to `capacity` (at least one). Each request
+ * takes one token and waits when the bucket is empty, so large runs stay under
+ * the portal's per-second limit instead of bursting into 429s.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private pausedUntil = 0;
+
+  constructor(private ratePerSecond: number, private capacity: number = ratePerSecond) {
+    if (ratePerSecond <= 0) {
+      throw new Error('Rate limit must be greater than 0 requests per second');
+    }
+    // A bucket smaller than one token would never hand one out
+    this.capacity = Math.max(1, capacity);
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Lower the refill rate (e.g. to match X-HubSpot-RateLimit-Secondly)
+   */
+  setRate(ratePerSecond: number): void {
+    if (ratePerSecond > 0 && ratePerSecond < this.ratePerSecond) {
+      this.refill();
+      this.ratePerSecond = ratePerSecond;
+      this.capacity = Math.max(1, Math.min(this.capacity, ratePerSecond));
+      this.tokens = Math.min(this.tokens, this.capacity);
+    }
+  }
+
+  /**
+   * Stop handing out tokens for the given number of milliseconds
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Wait until a token is available, then take it
+   */
+  async take(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.ratePerSecond) * 1000));
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.ratePerSecond);
+    this.lastRefill = now;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Record-level association checks: limits and duplicate labels for one planned association
+ */
+
+import { RecordAssociation } from './types';
+import { AssociationLabelPair } from './association-labels';
+
+export interface RecordAssociationCheck {
+  check: 'duplicate' | 'limit' | 'inverse-limit';
+  ok: boolean;
+  message: string;
+}
+
+export interface PlannedAssociation {
+  objectA: string;
+  recordA: string;
+  objectB: string;
+  /** The objectB record to associate, when known */
+  recordB?: string;
+  /** Association type to add, with its limits */
+  pair: AssociationLabelPair;
+  /** Existing associations of recordA to objectB */
+  associations: RecordAssociation[];
+  /** Existing associations of recordB to objectA, when recordB is known */
+  inverseAssociations?: RecordAssociation[];
+}
+
+/**
+ * Whether adding the planned association would duplicate an existing label or exceed a configured limit
+ * Paired labels write both directions, so the inverse limit of recordB is checked too.
+ */
+export function checkPlannedAssociation(planned: PlannedAssociation): RecordAssociationCheck[] {
+  const { objectA, recordA, objectB, recordB, pair } = planned;
+  const checks: RecordAssociationCheck[] = [];
+  const typeName = `${pair.label ? `"${pair.label}"` : 'the default type'} (typeId ${pair.typeId})`;
+
+  const withType = (associations: RecordAssociation[], typeId: number | null) =>
+    associations.filter((a) => a.associationTypes.some((t) => t.typeId === typeId));
+  const existing = withType(planned.associations, pair.typeId);
+  const linked = recordB !== undefined && existing.some((a) => String(a.toObjectId) === recordB);
+
+  if (recordB !== undefined) {
+    checks.push({
+      check: 'duplicate',
+      ok: !linked,
+      message: linked
+        ? `${objectA} ${recordA} is already associated with ${objectB} ${recordB} as ${typeName}`
+        : `${objectA} ${recordA} is not yet associated with ${objectB} ${recordB} as ${typeName}`,
+    });
+  }
+
+  if (pair.maxToObjectIds !== undefined) {
+    const after = existing.length + (linked ? 0 : 1);
+    const max = pair.maxToObjectIds;
+    checks.push({
+      check: 'limit',
+      ok: max === null || after <= max,
+      message:
+        max === null
+          ? `${objectA} ${recordA} has ${existing.length} ${objectB} association(s) as ${typeName}; no limit`
+          : `${objectA} ${recordA} has ${existing.length} ${objectB} association(s) as ${typeName}; the limit is ${max}`,
+    });
+  }
+
+  if (recordB !== undefined && planned.inverseAssociations && pair.inverseTypeId !== null && pair.inverseMaxToObjectIds != null) {
+    const inverse = withType(planned.inverseAssociations, pair.inverseTypeId);
+    const inverseLinked = inverse.some((a) => String(a.toObjectId) === recordA);
+    const after = inverse.length + (inverseLinked ? 0 : 1);
+    checks.push({
+      check: 'inverse-limit',
+      ok: after <= pair.inverseMaxToObjectIds,
+      message: `${objectB} ${recordB} has ${inverse.length} ${objectA} association(s) as typeId ${pair.inverseTypeId}; the limit is ${pair.inverseMaxToObjectIds}`,
+    });
+  }
+
+  return checks;
+}
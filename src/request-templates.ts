@@ -0,0 +1,229 @@
+/**
+ * Ready-to-run association request templates (curl, fetch, axios, .http, Python)
+ */
+
+export type EmitFormat = 'curl' | 'fetch' | 'axios' | 'http' | 'python';
+
+export const EMIT_FORMATS: EmitFormat[] = ['curl', 'fetch', 'axios', 'http', 'python'];
+
+export interface RequestTemplate {
+  /** Identifier used for variable names in generated code */
+  name: string;
+  description: string;
+  method: 'POST';
+  path: string;
+  body: Record<string, unknown>;
+}
+
+export interface AssociationTemplateInput {
+  fromObjectType: string;
+  toObjectType: string;
+  associationCategory: string;
+  associationTypeId: number;
+  /** Placeholder for from record IDs, e.g. <CONTACT_ID> */
+  fromIdPlaceholder: string;
+  toIdPlaceholder: string;
+}
+
+/**
+ * Labeled create, default create, batch read and archive calls for one association type
+ */
+export function associationRequestTemplates(input: AssociationTemplateInput): RequestTemplate[] {
+  const base = `/crm/v4/associations/${input.fromObjectType}/${input.toObjectType}`;
+  const from = { id: input.fromIdPlaceholder };
+  const to = { id: input.toIdPlaceholder };
+
+  return [
+    {
+      name: 'create',
+      description: `Associate ${input.fromObjectType} with ${input.toObjectType} using type ${input.associationTypeId}`,
+      method: 'POST',
+      path: `${base}/batch/create`,
+      body: {
+        inputs: [
+          {
+            from,
+            to,
+            types: [{ associationCategory: input.associationCategory, associationTypeId: input.associationTypeId }],
+          },
+        ],
+      },
+    },
+    {
+      name: 'associateDefault',
+      description: `Associate ${input.fromObjectType} with ${input.toObjectType} using the default (unlabeled) type`,
+      method: 'POST',
+      path: `${base}/batch/associate/default`,
+      body: { inputs: [{ from, to }] },
+    },
+    {
+      name: 'read',
+      description: `Read the ${input.toObjectType} associated with each ${input.fromObjectType} record`,
+      method: 'POST',
+      path: `${base}/batch/read`,
+      body: { inputs: [from] },
+    },
+    {
+      name: 'archive',
+      description: `Remove all associations between the records (every type)`,
+      method: 'POST',
+      path: `${base}/batch/archive`,
+      body: { inputs: [{ from, to: [to] }] },
+    },
+  ];
+}
+
+/**
+ * Render templates as a shell script, a Node.js script (fetch or axios), an .http file or a Python script
+ */
+export function renderRequestTemplates(templates: RequestTemplate[], format: EmitFormat, baseUrl: string): string {
+  switch (format) {
+    case 'fetch':
+      return renderFetch(templates, baseUrl);
+    case 'axios':
+      return renderAxios(templates, baseUrl);
+    case 'http':
+      return renderHttp(templates, baseUrl);
+    case 'python':
+      return renderPython(templates, baseUrl);
+    default:
+      return renderCurl(templates, baseUrl);
+  }
+}
+
+const HEADER = 'Generated by hubspot-crm verify - replace the <..._ID> placeholders before running';
+
+function renderCurl(templates: RequestTemplate[], baseUrl: string): string {
+  const lines = ['#!/bin/sh', `# ${HEADER}`];
+  templates.forEach((template, index) => {
+    lines.push('');
+    lines.push(`# ${index + 1}. ${template.description}`);
+    lines.push(`curl -sS -X ${template.method} '${baseUrl}${template.path}' \\`);
+    lines.push(`  -H "Authorization: Bearer $HUBSPOT_ACCESS_TOKEN" \\`);
+    lines.push(`  -H 'Content-Type: application/json' \\`);
+    lines.push(`  -d '${json(template.body).replace(/'/g, `'\\''`)}'`);
+  });
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderFetch(templates: RequestTemplate[], baseUrl: string): string {
+  const lines = [
+    `// ${HEADER}`,
+    `const BASE_URL = '${baseUrl}';`,
+    'const headers = {',
+    '  Authorization: `Bearer ${process.env.HUBSPOT_ACCESS_TOKEN}`,',
+    "  'Content-Type': 'application/json',",
+    '};',
+    '',
+    'async function main() {',
+  ];
+  templates.forEach((template, index) => {
+    if (index > 0) {
+      lines.push('');
+    }
+    lines.push(`  // ${index + 1}. ${template.description}`);
+    lines.push(`  const ${template.name} = await fetch(\`\${BASE_URL}${template.path}\`, {`);
+    lines.push(`    method: '${template.method}',`);
+    lines.push('    headers,');
+    lines.push(`    body: JSON.stringify(${indent(json(template.body), '    ')}),`);
+    lines.push('  });');
+    lines.push(`  console.log('${template.name}', ${template.name}.status, await ${template.name}.text());`);
+  });
+  lines.push('}');
+  lines.push('');
+  lines.push('main().catch((error) => {');
+  lines.push('  console.error(error);');
+  lines.push('  process.exit(1);');
+  lines.push('});');
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderAxios(templates: RequestTemplate[], baseUrl: string): string {
+  const lines = [
+    `// ${HEADER}`,
+    "const axios = require('axios');",
+    '',
+    'const client = axios.create({',
+    `  baseURL: '${baseUrl}',`,
+    '  headers: { Authorization: `Bearer ${process.env.HUBSPOT_ACCESS_TOKEN}` },',
+    '});',
+    '',
+    'async function main() {',
+  ];
+  templates.forEach((template, index) => {
+    if (index > 0) {
+      lines.push('');
+    }
+    lines.push(`  // ${index + 1}. ${template.description}`);
+    lines.push(`  const ${template.name} = await client.${template.method.toLowerCase()}('${template.path}', ${indent(json(template.body), '  ')});`);
+    lines.push(`  console.log('${template.name}', ${template.name}.status, ${template.name}.data);`);
+  });
+  lines.push('}');
+  lines.push('');
+  lines.push('main().catch((error) => {');
+  lines.push('  console.error(error.response ? error.response.data : error);');
+  lines.push('  process.exit(1);');
+  lines.push('});');
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderHttp(templates: RequestTemplate[], baseUrl: string): string {
+  const lines = [`# ${HEADER}`, `@baseUrl = ${baseUrl}`, '@token = {{$processEnv HUBSPOT_ACCESS_TOKEN}}'];
+  templates.forEach((template, index) => {
+    lines.push('');
+    lines.push(`### ${index + 1}. ${template.description}`);
+    lines.push(`${template.method} {{baseUrl}}${template.path}`);
+    lines.push('Authorization: Bearer {{token}}');
+    lines.push('Content-Type: application/json');
+    lines.push('');
+    lines.push(json(template.body));
+  });
+  lines.push('');
+  return lines.join('\n');
+}
+
+function renderPython(templates: RequestTemplate[], baseUrl: string): string {
+  const lines = [
+    `# ${HEADER}`,
+    'import os',
+    '',
+    'import requests',
+    '',
+    `BASE_URL = "${baseUrl}"`,
+    'HEADERS = {',
+    '    "Authorization": f"Bearer {os.environ[\'HUBSPOT_ACCESS_TOKEN\']}",',
+    '    "Content-Type": "application/json",',
+    '}',
+  ];
+  templates.forEach((template, index) => {
+    lines.push('');
+    lines.push(`# ${index + 1}. ${template.description}`);
+    // Bodies only hold strings and numbers, so their JSON is also a valid Python literal
+    lines.push(`${snakeCase(template.name)} = requests.${template.method.toLowerCase()}(`);
+    lines.push(`    f"{BASE_URL}${template.path}",`);
+    lines.push('    headers=HEADERS,');
+    lines.push(`    json=${indent(JSON.stringify(template.body, null, 4), '    ')},`);
+    lines.push(')');
+    lines.push(`print("${template.name}", ${snakeCase(template.name)}.status_code, ${snakeCase(template.name)}.text)`);
+  });
+  lines.push('');
+  return lines.join('\n');
+}
+
+function json(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Indent every line after the first, for values embedded in generated code
+ */
+function indent(text: string, prefix: string): string {
+  return text.split('\n').join(`\n${prefix}`);
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
@@ -0,0 +1,485 @@
+/**
+ * Schema snapshots and snapshot diffing
+ */
+
+import * as fs from 'fs';
+import { HubSpotClient } from './hubspot-client';
+import { HubSpotSchema, HubSpotProperty, AssociationDefinition } from './types';
+import { HubSpotApiError } from './errors';
+import { CacheMissError } from './cache';
+import { mapWithConcurrency, STANDARD_OBJECTS } from './utils';
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotAssociationPair {
+  fromObjectType: string;
+  toObjectType: string;
+  types: AssociationDefinition[];
+}
+
+export interface SchemaSnapshot {
+  snapshotVersion: number;
+  createdAt: string;
+  source: {
+    profile: string | null;
+    portalId: string | null;
+  };
+  schemas: HubSpotSchema[];
+  /** Whether association types were collected for every object pair */
+  includesAssociationTypes: boolean;
+  /** Object pairs with at least one association type */
+  associationTypes: SnapshotAssociationPair[];
+}
+
+export interface CreateSnapshotOptions {
+  /** Collect association types for every ordered pair of objects (default true) */
+  associationTypes?: boolean;
+  /** Concurrent association type requests (default 4) */
+  concurrency?: number;
+  profile?: string | null;
+  portalId?: string | null;
+}
+
+export type SchemaChangeKind =
+  | 'object-added'
+  | 'object-removed'
+  | 'object-renamed'
+  | 'object-relabeled'
+  | 'property-added'
+  | 'property-removed'
+  | 'property-type-changed'
+  | 'property-field-type-changed'
+  | 'property-relabeled'
+  | 'option-added'
+  | 'option-removed'
+  | 'option-relabeled'
+  | 'required-added'
+  | 'required-removed'
+  | 'association-type-added'
+  | 'association-type-removed'
+  | 'association-label-changed'
+  | 'association-category-changed';
+
+export interface SchemaChange {
+  kind: SchemaChangeKind;
+  breaking: boolean;
+  /** Object name (as in the newer snapshot, or the older one when removed) */
+  object: string;
+  property?: string;
+  message: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Schemas from /crm/v3/schemas plus the standard objects it does not list
+ * Standard objects the token cannot read (or that are not cached offline) are left out.
+ */
+export async function collectSchemas(client: HubSpotClient, concurrency: number = 4): Promise<HubSpotSchema[]> {
+  const schemas = await client.getSchemas();
+  const missing = STANDARD_OBJECTS.filter((name) => !schemas.some((s) => s.name === name));
+
+  const standard = await mapWithConcurrency(missing, concurrency, async (objectType) => {
+    try {
+      return await client.getSchema(objectType);
+    } catch (error: any) {
+      if (error instanceof CacheMissError || (error instanceof HubSpotApiError && error.status !== 429 && error.status < 500)) {
+        return null;
+      }
+      throw error;
+    }
+  });
+
+  return [...schemas, ...standard.filter((schema): schema is HubSpotSchema => schema !== null)];
+}
+
+/**
+ * Capture schemas (custom and standard) and association types for every object pair
+ */
+export async function createSnapshot(
+  client: HubSpotClient,
+  options: CreateSnapshotOptions = {}
+): Promise<SchemaSnapshot> {
+  const schemas = await collectSchemas(client, options.concurrency ?? 4);
+  const includeAssociationTypes = options.associationTypes !== false;
+
+  let associationTypes: SnapshotAssociationPair[] = [];
+  if (includeAssociationTypes) {
+    const pairs: Array<[string, string]> = [];
+    for (const from of schemas) {
+      for (const to of schemas) {
+        pairs.push([from.name, to.name]);
+      }
+    }
+
+    const results = await mapWithConcurrency(pairs, options.concurrency ?? 4, async ([from, to]) => {
+      const result = await client.verifyAssociationPath(from, to);
+      return { fromObjectType: from, toObjectType: to, types: result.associationTypes?.results || [] };
+    });
+    associationTypes = results.filter((pair) => pair.types.length > 0);
+  }
+
+  return normalizeSnapshot({
+    snapshotVersion: SNAPSHOT_VERSION,
+    createdAt: new Date().toISOString(),
+    source: {
+      profile: options.profile ?? null,
+      portalId: options.portalId ?? null,
+    },
+    schemas,
+    includesAssociationTypes: includeAssociationTypes,
+    associationTypes,
+  });
+}
+
+/**
+ * Sort everything order-insensitive so snapshots of an unchanged portal are identical
+ */
+export function normalizeSnapshot(snapshot: SchemaSnapshot): SchemaSnapshot {
+  const byString = (a: string, b: string) => a.localeCompare(b);
+
+  const schemas = [...snapshot.schemas]
+    .map((schema) => ({
+      ...schema,
+      requiredProperties: [...(schema.requiredProperties || [])].sort(byString),
+      searchableProperties: [...(schema.searchableProperties || [])].sort(byString),
+      ...(schema.secondaryDisplayProperties
+        ? { secondaryDisplayProperties: [...schema.secondaryDisplayProperties].sort(byString) }
+        : {}),
+      ...(schema.properties
+        ? {
+            properties: [...schema.properties]
+              .map((prop) => (prop.options ? { ...prop, options: [...prop.options].sort((a, b) => byString(a.value, b.value)) } : prop))
+              .sort((a, b) => byString(a.name, b.name)),
+          }
+        : {}),
+      ...(schema.associations
+        ? { associations: [...schema.associations].sort((a, b) => byString(a.id, b.id)) }
+        : {}),
+    }))
+    .sort((a, b) => byString(a.name, b.name));
+
+  const associationTypes = [...snapshot.associationTypes]
+    .map((pair) => ({
+      ...pair,
+      types: [...pair.types].sort((a, b) => a.associationTypeId - b.associationTypeId),
+    }))
+    .sort((a, b) => byString(a.fromObjectType, b.fromObjectType) || byString(a.toObjectType, b.toObjectType));
+
+  return { ...snapshot, schemas, associationTypes };
+}
+
+/**
+ * Serialize a snapshot as JSON with sorted keys
+ */
+export function serializeSnapshot(snapshot: SchemaSnapshot): string {
+  return JSON.stringify(sortKeys(normalizeSnapshot(snapshot)), null, 2) + '\n';
+}
+
+/**
+ * Read a snapshot file written by `hubspot-crm snapshot`
+ */
+export function loadSnapshot(file: string): SchemaSnapshot {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read snapshot ${file}: ${error.message}`);
+  }
+
+  if (!parsed || !Array.isArray(parsed.schemas)) {
+    throw new Error(`${file} is not a schema snapshot (missing "schemas")`);
+  }
+  if (parsed.snapshotVersion > SNAPSHOT_VERSION) {
+    throw new Error(`${file} uses snapshot version ${parsed.snapshotVersion}; this tool reads up to ${SNAPSHOT_VERSION}`);
+  }
+
+  return normalizeSnapshot({
+    snapshotVersion: parsed.snapshotVersion ?? SNAPSHOT_VERSION,
+    createdAt: parsed.createdAt ?? '',
+    source: parsed.source ?? { profile: null, portalId: null },
+    schemas: parsed.schemas,
+    includesAssociationTypes: parsed.includesAssociationTypes ?? Array.isArray(parsed.associationTypes),
+    associationTypes: parsed.associationTypes ?? [],
+  });
+}
+
+/**
+ * Compare two snapshots
+ * Objects are matched by objectTypeId first (so renames are detected), then by name.
+ */
+export function diffSnapshots(before: SchemaSnapshot, after: SchemaSnapshot): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const matched = matchSchemas(before.schemas, after.schemas);
+
+  for (const { before: a, after: b } of matched) {
+    if (a && !b) {
+      changes.push({ kind: 'object-removed', breaking: true, object: a.name, message: `Object ${a.name} was removed` });
+      continue;
+    }
+    if (!a && b) {
+      changes.push({ kind: 'object-added', breaking: false, object: b.name, message: `Object ${b.name} was added` });
+      continue;
+    }
+    if (a && b) {
+      diffSchema(a, b, changes);
+    }
+  }
+
+  if (before.includesAssociationTypes && after.includesAssociationTypes) {
+    diffAssociationTypes(before, after, matched, changes);
+  }
+
+  return changes;
+}
+
+function matchSchemas(
+  before: HubSpotSchema[],
+  after: HubSpotSchema[]
+): Array<{ before?: HubSpotSchema; after?: HubSpotSchema }> {
+  const result: Array<{ before?: HubSpotSchema; after?: HubSpotSchema }> = [];
+  const remaining = new Set(after);
+
+  for (const a of before) {
+    const typeId = a.objectTypeId || a.id;
+    let b = [...remaining].find((s) => (s.objectTypeId || s.id) === typeId);
+    if (!b) {
+      b = [...remaining].find((s) => s.name === a.name);
+    }
+    if (b) {
+      remaining.delete(b);
+    }
+    result.push({ before: a, after: b });
+  }
+
+  remaining.forEach((b) => result.push({ after: b }));
+  return result;
+}
+
+function diffSchema(a: HubSpotSchema, b: HubSpotSchema, changes: SchemaChange[]): void {
+  const object = b.name;
+
+  if (a.name !== b.name) {
+    changes.push({
+      kind: 'object-renamed',
+      breaking: true,
+      object,
+      message: `Object ${a.name} was renamed to ${b.name}`,
+      before: a.name,
+      after: b.name,
+    });
+  }
+  if (a.labels.singular !== b.labels.singular || a.labels.plural !== b.labels.plural) {
+    changes.push({
+      kind: 'object-relabeled',
+      breaking: false,
+      object,
+      message: `Labels changed from "${a.labels.singular}/${a.labels.plural}" to "${b.labels.singular}/${b.labels.plural}"`,
+      before: a.labels,
+      after: b.labels,
+    });
+  }
+
+  const requiredBefore = new Set(a.requiredProperties || []);
+  const requiredAfter = new Set(b.requiredProperties || []);
+  requiredAfter.forEach((name) => {
+    if (!requiredBefore.has(name)) {
+      changes.push({ kind: 'required-added', breaking: true, object, property: name, message: `Property ${name} is now required` });
+    }
+  });
+  requiredBefore.forEach((name) => {
+    if (!requiredAfter.has(name)) {
+      changes.push({ kind: 'required-removed', breaking: false, object, property: name, message: `Property ${name} is no longer required` });
+    }
+  });
+
+  // Properties are only compared when both snapshots carry them
+  if (!a.properties || !b.properties) {
+    return;
+  }
+
+  const propsBefore = new Map(a.properties.map((p) => [p.name, p]));
+  const propsAfter = new Map(b.properties.map((p) => [p.name, p]));
+
+  propsBefore.forEach((prop, name) => {
+    if (!propsAfter.has(name)) {
+      changes.push({ kind: 'property-removed', breaking: true, object, property: name, message: `Property ${name} was removed` });
+    }
+  });
+  propsAfter.forEach((prop, name) => {
+    const old = propsBefore.get(name);
+    if (!old) {
+      changes.push({ kind: 'property-added', breaking: false, object, property: name, message: `Property ${name} (${prop.type}) was added` });
+      return;
+    }
+    diffProperty(object, old, prop, changes);
+  });
+}
+
+function diffProperty(object: string, a: HubSpotProperty, b: HubSpotProperty, changes: SchemaChange[]): void {
+  const property = b.name;
+
+  if (a.type !== b.type) {
+    changes.push({
+      kind: 'property-type-changed',
+      breaking: true,
+      object,
+      property,
+      message: `Property ${property} type changed from ${a.type} to ${b.type}`,
+      before: a.type,
+      after: b.type,
+    });
+  }
+  if (a.fieldType !== b.fieldType) {
+    changes.push({
+      kind: 'property-field-type-changed',
+      breaking: false,
+      object,
+      property,
+      message: `Property ${property} fieldType changed from ${a.fieldType} to ${b.fieldType}`,
+      before: a.fieldType,
+      after: b.fieldType,
+    });
+  }
+  if (a.label !== b.label) {
+    changes.push({
+      kind: 'property-relabeled',
+      breaking: false,
+      object,
+      property,
+      message: `Property ${property} label changed from "${a.label}" to "${b.label}"`,
+      before: a.label,
+      after: b.label,
+    });
+  }
+
+  const optionsBefore = new Map((a.options || []).map((o) => [o.value, o]));
+  const optionsAfter = new Map((b.options || []).map((o) => [o.value, o]));
+
+  optionsBefore.forEach((option, value) => {
+    if (!optionsAfter.has(value)) {
+      changes.push({
+        kind: 'option-removed',
+        breaking: true,
+        object,
+        property,
+        message: `Option "${value}" was removed from ${property}`,
+        before: option,
+      });
+    }
+  });
+  optionsAfter.forEach((option, value) => {
+    const old = optionsBefore.get(value);
+    if (!old) {
+      changes.push({
+        kind: 'option-added',
+        breaking: false,
+        object,
+        property,
+        message: `Option "${value}" was added to ${property}`,
+        after: option,
+      });
+    } else if (old.label !== option.label) {
+      changes.push({
+        kind: 'option-relabeled',
+        breaking: false,
+        object,
+        property,
+        message: `Option "${value}" of ${property} relabeled from "${old.label}" to "${option.label}"`,
+        before: old.label,
+        after: option.label,
+      });
+    }
+  });
+}
+
+function diffAssociationTypes(
+  before: SchemaSnapshot,
+  after: SchemaSnapshot,
+  matched: Array<{ before?: HubSpotSchema; after?: HubSpotSchema }>,
+  changes: SchemaChange[]
+): void {
+  // Translate old object names to new ones so renamed objects keep their pairs
+  const renamed = new Map<string, string>();
+  matched.forEach(({ before: a, after: b }) => {
+    if (a && b) {
+      renamed.set(a.name, b.name);
+    }
+  });
+
+  const pairKey = (from: string, to: string) => `${from}|${to}`;
+  const pairsBefore = new Map(
+    before.associationTypes.map((pair) => [
+      pairKey(renamed.get(pair.fromObjectType) ?? pair.fromObjectType, renamed.get(pair.toObjectType) ?? pair.toObjectType),
+      pair,
+    ])
+  );
+  const pairsAfter = new Map(after.associationTypes.map((pair) => [pairKey(pair.fromObjectType, pair.toObjectType), pair]));
+  const keys = new Set([...pairsBefore.keys(), ...pairsAfter.keys()]);
+
+  keys.forEach((key) => {
+    const [from, to] = key.split('|');
+    const typesBefore = new Map((pairsBefore.get(key)?.types || []).map((t) => [t.associationTypeId, t]));
+    const typesAfter = new Map((pairsAfter.get(key)?.types || []).map((t) => [t.associationTypeId, t]));
+    const describe = (t: AssociationDefinition) => `${t.associationTypeId}${t.name ? ` "${t.name}"` : ''}`;
+
+    typesBefore.forEach((type, id) => {
+      if (!typesAfter.has(id)) {
+        changes.push({
+          kind: 'association-type-removed',
+          breaking: true,
+          object: from,
+          message: `Association type ${describe(type)} from ${from} to ${to} was removed`,
+          before: type,
+        });
+      }
+    });
+    typesAfter.forEach((type, id) => {
+      const old = typesBefore.get(id);
+      if (!old) {
+        changes.push({
+          kind: 'association-type-added',
+          breaking: false,
+          object: from,
+          message: `Association type ${describe(type)} from ${from} to ${to} was added`,
+          after: type,
+        });
+        return;
+      }
+      if ((old.name || null) !== (type.name || null)) {
+        changes.push({
+          kind: 'association-label-changed',
+          breaking: true,
+          object: from,
+          message: `Association type ${id} from ${from} to ${to} label changed from "${old.name || '(default)'}" to "${type.name || '(default)'}"`,
+          before: old.name || null,
+          after: type.name || null,
+        });
+      }
+      if (old.associationCategory !== type.associationCategory) {
+        changes.push({
+          kind: 'association-category-changed',
+          breaking: true,
+          object: from,
+          message: `Association type ${id} from ${from} to ${to} category changed from ${old.associationCategory} to ${type.associationCategory}`,
+          before: old.associationCategory,
+          after: type.associationCategory,
+        });
+      }
+    });
+  });
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
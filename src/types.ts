@@ -2,6 +2,8 @@
  * Type definitions for HubSpot CRM API v3 responses
  */
 
+import type { SchemaCache } from './cache';
+
 export interface HubSpotSchema {
   id: string;
   name: string;
@@ -65,6 +67,21 @@ export interface SchemasResponse {
   results: HubSpotSchema[];
 }
 
+export interface HubSpotPropertyGroup {
+  name: string;
+  label: string;
+  displayOrder: number;
+  archived: boolean;
+}
+
+export interface PropertyGroupsResponse {
+  results: HubSpotPropertyGroup[];
+}
+
+export interface PropertiesResponse {
+  results: HubSpotProperty[];
+}
+
 export interface AssociationDefinition {
   fromObjectType: string;
   toObjectType: string;
@@ -77,8 +94,78 @@ export interface AssociationTypesResponse {
   results: AssociationDefinition[];
 }
 
+/**
+ * Association type as returned by /crm/v4/associations/{from}/{to}/labels
+ */
+export interface AssociationLabel {
+  category: string;
+  typeId: number;
+  /** null for the unlabeled default type */
+  label: string | null;
+}
+
+export interface AssociationLabelsResponse {
+  results: AssociationLabel[];
+}
+
+/**
+ * Per-type association limit from /crm/v4/associations/definitions/configurations/{from}/{to}
+ */
+export interface AssociationDefinitionConfiguration {
+  category: string;
+  typeId: number;
+  label?: string | null;
+  /** Limit set in the portal: records of the to object one from record can be associated with */
+  userEnforcedMaxToObjectIds?: number;
+  /** Limit HubSpot itself enforces */
+  maxToObjectIds?: number;
+}
+
+export interface AssociationDefinitionConfigurationsResponse {
+  results: AssociationDefinitionConfiguration[];
+}
+
+export interface HubSpotRecord {
+  id: string;
+  properties: Record<string, string | null>;
+}
+
+/**
+ * One associated record from /crm/v4/objects/{type}/{id}/associations/{toType}
+ */
+export interface RecordAssociation {
+  toObjectId: number | string;
+  associationTypes: AssociationLabel[];
+}
+
+export interface RecordAssociationsResponse {
+  results: RecordAssociation[];
+  paging?: {
+    next?: {
+      after: string;
+    };
+  };
+}
+
 export interface ObjectExistsResult {
   exists: boolean;
   verifiedVia: 'schemas' | 'objects';
   error?: string;
 }
+
+export interface HubSpotClientOptions {
+  /** API base URL (default https://api.hubapi.com) */
+  baseUrl?: string;
+  /** Retries allowed for a single request after a 429 or 5xx (default 4) */
+  maxRetries?: number;
+  /** Total retries allowed across the lifetime of the client (default 50) */
+  retryBudget?: number;
+  /** Base delay for exponential backoff in milliseconds (default 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default 30000) */
+  maxDelayMs?: number;
+  /** Client-side request rate limit, in requests per second (default 10) */
+  requestsPerSecond?: number;
+  /** Cache for schemas, association types and object probes (disabled when omitted) */
+  cache?: SchemaCache;
+}
@@ -1,5 +1,45 @@
 import chalk from 'chalk';
-import { HubSpotSchema, AssociationDefinition } from './types';
+import { HubSpotSchema, HubSpotProperty, HubSpotPropertyGroup, AssociationDefinition, RecordAssociation } from './types';
+import type { SchemaChange } from './snapshot';
+import type { PropertySearchResult } from './property-search';
+import type { LintFinding } from './lint';
+import type { CheckResult } from './manifest';
+import type { PortalComparison } from './compare';
+import type { AssociationMatrix } from './matrix';
+import type { AssociationPath } from './association-path';
+import type { AssociationLabelPair } from './association-labels';
+import type { RecordAssociationCheck } from './record-associations';
+import type { FailingRequest, Diagnosis } from './diagnose';
+import { STATUS_TITLES, ErrorCatalogMatch } from './error-catalog';
+import { isReadOnlyProperty } from './codegen';
+
+/**
+ * Standard HubSpot objects typically have well-known names
+ */
+export const STANDARD_OBJECTS = [
+  'contacts',
+  'companies',
+  'deals',
+  'tickets',
+  'products',
+  'line_items',
+  'quotes',
+  'calls',
+  'emails',
+  'meetings',
+  'notes',
+  'tasks',
+  'communications',
+  'postal_mail',
+  'marketing_events',
+  'feedback_submissions',
+  'goals',
+  'invoices',
+  'subscriptions',
+  'taxes',
+  'discounts',
+  'fees',
+];
 
 /**
  * Determine if a schema represents a portal-scoped (custom) object
@@ -22,33 +62,7 @@ export function isPortalScoped(schema: HubSpotSchema): boolean {
     return true;
   }
 
-  // Standard HubSpot objects typically have well-known names
-  const standardObjects = [
-    'contacts',
-    'companies',
-    'deals',
-    'tickets',
-    'products',
-    'line_items',
-    'quotes',
-    'calls',
-    'emails',
-    'meetings',
-    'notes',
-    'tasks',
-    'communications',
-    'postal_mail',
-    'marketing_events',
-    'feedback_submissions',
-    'goals',
-    'invoices',
-    'subscriptions',
-    'taxes',
-    'discounts',
-    'fees',
-  ];
-
-  return !standardObjects.includes(schema.name);
+  return !STANDARD_OBJECTS.includes(schema.name);
 }
 
 /**
@@ -162,14 +176,14 @@ export function formatSchemasTable(schemas: HubSpotSchema[]): string {
   // Rows
   for (const schema of sorted) {
     const type = isPortalScoped(schema) 
-      ? chalk.yellow('CUSTOM')
-      : chalk.blue('STANDARD');
+      ? chalk.yellow('CUSTOM'.padEnd(10))
+      : chalk.blue('STANDARD'.padEnd(10));
     
     const name = schema.name.padEnd(25).substring(0, 25);
     const id = (schema.objectTypeId || schema.id).padEnd(15).substring(0, 15);
     const label = schema.labels.singular.padEnd(30).substring(0, 30);
     
-    lines.push(`${type.padEnd(18)} ${name} ${id} ${label}`);
+    lines.push(`${type} ${name} ${id} ${label}`);
   }
   
   lines.push('-'.repeat(100));
@@ -214,6 +228,106 @@ export function formatObjectDetails(schema: HubSpotSchema, quiet: boolean = fals
   return lines.join('\n');
 }
 
+/**
+ * Format a single property entry of an object's property list
+ */
+export function formatPropertyEntry(prop: HubSpotProperty): string {
+  const lines: string[] = [];
+  const hubspotDefined = prop.hubspotDefined ? chalk.blue('[HS]') : chalk.yellow('[CUSTOM]');
+  lines.push(`  ${hubspotDefined} ${chalk.white(prop.name)}`);
+  lines.push(chalk.gray(`      Label: ${prop.label}`));
+  lines.push(chalk.gray(`      Type: ${prop.type} (${prop.fieldType})`));
+  if (prop.description) {
+    lines.push(chalk.gray(`      Description: ${prop.description}`));
+  }
+  lines.push('');
+  return lines.join('\n');
+}
+
+export interface PropertyGroupSummary {
+  name: string;
+  label: string;
+  displayOrder: number;
+  archived: boolean;
+  properties: HubSpotProperty[];
+  customCount: number;
+  hubspotDefinedCount: number;
+}
+
+/**
+ * Group properties by groupName, ordered by group display order
+ * Properties whose group is not in the list are collected at the end under their group name.
+ */
+export function groupProperties(properties: HubSpotProperty[], groups: HubSpotPropertyGroup[]): PropertyGroupSummary[] {
+  const summaries = new Map<string, PropertyGroupSummary>();
+  const summarize = (group: HubSpotPropertyGroup): PropertyGroupSummary => ({
+    ...group,
+    properties: [],
+    customCount: 0,
+    hubspotDefinedCount: 0,
+  });
+
+  [...groups]
+    .sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name))
+    .forEach((group) => summaries.set(group.name, summarize(group)));
+
+  [...properties]
+    .sort((a, b) => (a.displayOrder ?? 0) - (b.displayOrder ?? 0) || a.name.localeCompare(b.name))
+    .forEach((prop) => {
+      const groupName = prop.groupName || '(no group)';
+      if (!summaries.has(groupName)) {
+        summaries.set(groupName, summarize({ name: groupName, label: groupName, displayOrder: Number.MAX_SAFE_INTEGER, archived: false }));
+      }
+      const summary = summaries.get(groupName)!;
+      summary.properties.push(prop);
+      if (prop.hubspotDefined) {
+        summary.hubspotDefinedCount++;
+      } else {
+        summary.customCount++;
+      }
+    });
+
+  return [...summaries.values()];
+}
+
+/**
+ * Format property groups with custom vs HubSpot-defined counts
+ */
+export function formatPropertyGroups(
+  objectType: string,
+  groups: PropertyGroupSummary[],
+  quiet: boolean = false,
+  verbose: boolean = false
+): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(`Property groups of ${chalk.bold(objectType)}: ${groups.length}`);
+  }
+  lines.push('');
+
+  const header = `${'GROUP'.padEnd(35)} ${'LABEL'.padEnd(35)} ${'CUSTOM'.padStart(6)} ${'HS'.padStart(6)}`;
+  lines.push(chalk.bold(header));
+  lines.push('-'.repeat(85));
+
+  groups.forEach((group) => {
+    const archived = group.archived ? chalk.red(' (archived)') : '';
+    lines.push(
+      `${group.name.padEnd(35)} ${group.label.padEnd(35).substring(0, 35)} ${group.customCount.toString().padStart(6)} ${group.hubspotDefinedCount.toString().padStart(6)}${archived}`
+    );
+  });
+  lines.push('');
+
+  if (verbose) {
+    lines.push(chalk.bold('API Path:'));
+    lines.push(`  /crm/v3/properties/${objectType}/groups`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Format associations list (matching spec output format)
  */
@@ -227,7 +341,8 @@ export function formatAssociationsList(
     error?: string;
   },
   quiet: boolean = false,
-  verbose: boolean = false
+  verbose: boolean = false,
+  labelPairs: AssociationLabelPair[] = []
 ): string {
   const lines: string[] = [];
   
@@ -263,16 +378,64 @@ export function formatAssociationsList(
     lines.push(chalk.yellow('No association types defined.'));
     lines.push('');
   }
+
+  lines.push(...formatLabelPairs(objectA, objectB, labelPairs));
   
   if (verbose) {
     lines.push(chalk.bold('API Path:'));
     lines.push(`  ${result.path}`);
+    lines.push(`  GET /crm/v4/associations/${objectA}/${objectB}/labels`);
+    lines.push(`  GET /crm/v4/associations/${objectB}/${objectA}/labels`);
     lines.push('');
   }
   
   return lines.join('\n');
 }
 
+/**
+ * Type IDs for both directions, one row per label pair
+ * Writing with the ID of the opposite direction is a common cause of 500 errors.
+ */
+function formatLabelPairs(objectA: string, objectB: string, pairs: AssociationLabelPair[]): string[] {
+  if (pairs.length === 0) {
+    return [];
+  }
+
+  const idText = (typeId: number | null, max?: number | null) =>
+    typeId === null ? '-' : `${typeId}${max != null ? ` (max ${max})` : ''}`;
+  const labelText = (pair: AssociationLabelPair) => {
+    const label = pair.label ?? pair.inverseLabel ?? '(unlabeled)';
+    return pair.inverseLabel !== null && pair.label !== null && pair.inverseLabel.toLowerCase() !== pair.label.toLowerCase()
+      ? `${label} ↔ ${pair.inverseLabel}`
+      : label;
+  };
+  const forwardHeader = `${objectA} → ${objectB}`;
+  const reverseHeader = `${objectB} → ${objectA}`;
+  const labelWidth = Math.max(5, ...pairs.map((pair) => labelText(pair).length)) + 2;
+  const forwardWidth = Math.max(forwardHeader.length, ...pairs.map((pair) => idText(pair.typeId, pair.maxToObjectIds).length)) + 2;
+  const reverseWidth = Math.max(reverseHeader.length, ...pairs.map((pair) => idText(pair.inverseTypeId, pair.inverseMaxToObjectIds).length)) + 2;
+  const categoryWidth = Math.max(...pairs.map((pair) => pair.category.length)) + 2;
+  const showCardinality = pairs.some((pair) => pair.cardinality);
+
+  const lines: string[] = [];
+  lines.push(chalk.bold('Type IDs by direction:'));
+  lines.push(
+    chalk.gray(
+      `  ${'LABEL'.padEnd(labelWidth)}${forwardHeader.padEnd(forwardWidth)}${reverseHeader.padEnd(reverseWidth)}${showCardinality ? `${'CATEGORY'.padEnd(categoryWidth)}CARDINALITY` : 'CATEGORY'}`
+    )
+  );
+  pairs.forEach((pair) => {
+    const forward = idText(pair.typeId, pair.maxToObjectIds).padEnd(forwardWidth);
+    const reverse = idText(pair.inverseTypeId, pair.inverseMaxToObjectIds).padEnd(reverseWidth);
+    const category = showCardinality ? `${pair.category.padEnd(categoryWidth)}${pair.cardinality || ''}` : pair.category;
+    lines.push(
+      `  ${labelText(pair).padEnd(labelWidth)}${pair.typeId === null ? chalk.gray(forward) : chalk.white(forward)}${pair.inverseTypeId === null ? chalk.gray(reverse) : chalk.white(reverse)}${category}`
+    );
+  });
+  lines.push('');
+  return lines;
+}
+
 /**
  * Format verify output (the power feature output)
  * Shows object existence with verification source (schemas API vs objects API)
@@ -295,6 +458,8 @@ export function formatVerifyOutput(
     labelDiffersA: boolean;
     labelDiffersB: boolean;
     associationTypes: AssociationDefinition[];
+    labelPairs?: AssociationLabelPair[];
+    limitWarnings?: string[];
   },
   quiet: boolean = false,
   verbose: boolean = false
@@ -322,7 +487,7 @@ export function formatVerifyOutput(
   if (data.objectAExists && data.objectBExists) {
     if (data.associationExists) {
       lines.push('');
-      lines.push(chalk.green('✔ Association definition found'));
+      lines.push(chalk.green(`✔ Association definition found${data.cardinality ? ` (${data.cardinality})` : ''}`));
     } else {
       lines.push(chalk.red(`✖ No association defined between ${data.objectA} and ${data.objectB}`));
     }
@@ -335,6 +500,7 @@ export function formatVerifyOutput(
     lines.push(chalk.bold('Recommended API path:'));
     lines.push(`POST /crm/v4/associations/${data.internalNameA}/${data.internalNameB}/batch/create`);
     lines.push('');
+    lines.push(...formatLabelPairs(data.internalNameA, data.internalNameB, data.labelPairs || []));
     
     // Warnings
     const warnings: string[] = [];
@@ -348,6 +514,7 @@ export function formatVerifyOutput(
     if (data.isAPortalScoped || data.isBPortalScoped) {
       warnings.push('Single PUT association endpoint may return 500 in sandbox');
     }
+    warnings.push(...(data.limitWarnings || []));
     
     if (warnings.length > 0) {
       lines.push(chalk.bold('Warnings:'));
@@ -375,73 +542,592 @@ export function formatVerifyOutput(
 }
 
 /**
- * Common HubSpot Association API errors and their causes
+ * Example value for a property, used in API usage snippets
  */
-export const COMMON_ERRORS = {
-  '400': [
-    {
-      cause: 'Invalid object type name',
-      solution: 'Use the internal object name (e.g., "contacts" not "contact"). Run `hubspot-crm schemas` to see all valid names.',
-    },
-    {
-      cause: 'Incorrect association type ID',
-      solution: 'Use `hubspot-crm associations <fromObject> <toObject>` to get valid association type IDs.',
-    },
-    {
-      cause: 'Missing required association label',
-      solution: 'For custom associations, ensure you include the correct label name.',
-    },
-    {
-      cause: 'Invalid object ID format',
-      solution: 'Object IDs must be valid HubSpot record IDs (numeric strings).',
-    },
-  ],
-  '404': [
-    {
-      cause: 'Object type does not exist',
-      solution: 'Verify the object type exists using `hubspot-crm schemas`.',
-    },
-    {
-      cause: 'No association definition between objects',
-      solution: 'Check available associations with `hubspot-crm associations <fromObject> <toObject>`.',
-    },
-  ],
-  '500': [
-    {
-      cause: 'Portal-scoped object name mismatch',
-      solution: 'For custom objects, use the exact internal name including the portal prefix (e.g., "p12345_customobject").',
-    },
-    {
-      cause: 'Association type ID collision',
-      solution: 'Ensure you\'re using the correct association type ID for the direction (from -> to vs to -> from).',
-    },
-    {
-      cause: 'API version mismatch',
-      solution: 'Use v4 API for associations: /crm/v4/associations/{fromObjectType}/{toObjectType}/batch/create',
-    },
-  ],
-};
+export function examplePropertyValue(prop: HubSpotProperty): string {
+  const visibleOptions = (prop.options || []).filter((o) => !o.hidden);
+  switch (prop.type) {
+    case 'number':
+      return '42';
+    case 'bool':
+      return 'true';
+    case 'date':
+      return '2024-01-31';
+    case 'datetime':
+      return '2024-01-31T12:00:00.000Z';
+    case 'enumeration':
+      if (visibleOptions.length === 0) {
+        return '<OPTION_VALUE>';
+      }
+      if (prop.fieldType === 'checkbox') {
+        return visibleOptions.slice(0, 2).map((o) => o.value).join(';');
+      }
+      return visibleOptions[0].value;
+    default:
+      return `<${prop.name.toUpperCase()}>`;
+  }
+}
 
 /**
- * Format common errors for display
+ * Format full details of a single property, including read/write API usage
  */
-export function formatCommonErrors(): string {
+export function formatPropertyDetails(
+  objectType: string,
+  prop: HubSpotProperty,
+  quiet: boolean = false,
+  verbose: boolean = false
+): string {
   const lines: string[] = [];
-  
-  lines.push(chalk.bold('\n' + '='.repeat(100)));
-  lines.push(chalk.bold('Common HubSpot Association API Errors'));
-  lines.push(chalk.bold('='.repeat(100)));
-  
-  for (const [code, errors] of Object.entries(COMMON_ERRORS)) {
-    lines.push(chalk.bold(`\n${code === '400' ? chalk.yellow(`HTTP ${code} - Bad Request`) : code === '404' ? chalk.red(`HTTP ${code} - Not Found`) : chalk.red(`HTTP ${code} - Internal Server Error`)}`));
+  const yesNo = (value?: boolean) => (value ? chalk.white('yes') : chalk.gray('no'));
+  const readOnlyValue = isReadOnlyProperty(prop);
+
+  lines.push('');
+  lines.push(`Property: ${chalk.bold(prop.label)}`);
+  lines.push(`Internal name: ${chalk.white(prop.name)}`);
+  lines.push(`Object: ${chalk.white(objectType)}`);
+  lines.push(`Type: ${chalk.white(prop.type)} (${chalk.white(prop.fieldType)})`);
+  if (prop.groupName) {
+    lines.push(`Group: ${chalk.white(prop.groupName)}`);
+  }
+  if (prop.description) {
+    lines.push(`Description: ${prop.description}`);
+  }
+  lines.push(`Defined by: ${prop.hubspotDefined ? chalk.blue('HubSpot') : chalk.yellow('custom')}`);
+
+  lines.push('');
+  lines.push(chalk.bold('Flags:'));
+  lines.push(`  Unique value:      ${yesNo(prop.hasUniqueValue)}`);
+  lines.push(`  Calculated:        ${yesNo(prop.calculated)}`);
+  lines.push(`  External options:  ${yesNo(prop.externalOptions)}`);
+  lines.push(`  Hidden:            ${yesNo(prop.hidden)}`);
+  if (prop.displayOrder !== undefined) {
+    lines.push(`  Display order:     ${chalk.white(prop.displayOrder.toString())}`);
+  }
+
+  if (prop.modificationMetadata) {
     lines.push('');
-    
-    errors.forEach((error, index) => {
-      lines.push(chalk.gray(`  ${index + 1}. ${chalk.white('Cause:')} ${error.cause}`));
-      lines.push(chalk.gray(`     ${chalk.green('Solution:')} ${error.solution}`));
+    lines.push(chalk.bold('Modification metadata:'));
+    lines.push(`  Archivable:            ${yesNo(prop.modificationMetadata.archivable)}`);
+    lines.push(`  Read-only definition:  ${yesNo(prop.modificationMetadata.readOnlyDefinition)}`);
+    lines.push(`  Read-only value:       ${yesNo(prop.modificationMetadata.readOnlyValue)}`);
+  }
+
+  if (prop.createdUserId || prop.updatedUserId) {
+    lines.push('');
+    lines.push(chalk.bold('Audit:'));
+    if (prop.createdUserId) {
+      lines.push(`  Created by user: ${chalk.white(prop.createdUserId)}`);
+    }
+    if (prop.updatedUserId) {
+      lines.push(`  Updated by user: ${chalk.white(prop.updatedUserId)}`);
+    }
+  }
+
+  if (prop.options && prop.options.length > 0) {
+    lines.push('');
+    lines.push(chalk.bold(`Options (${prop.options.length}):`));
+    const header = `  ${'ORDER'.padEnd(6)} ${'VALUE'.padEnd(30)} ${'LABEL'.padEnd(30)} HIDDEN`;
+    lines.push(chalk.gray(header));
+    [...prop.options]
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .forEach((option) => {
+        const row = `  ${option.displayOrder.toString().padEnd(6)} ${option.value.padEnd(30)} ${option.label.padEnd(30)} ${option.hidden ? 'yes' : ''}`;
+        lines.push(option.hidden ? chalk.gray(row) : row);
+      });
+  }
+
+  lines.push('');
+  lines.push(chalk.bold('API usage:'));
+  lines.push(chalk.gray('  Read:'));
+  lines.push(`  GET /crm/v3/objects/${objectType}/{recordId}?properties=${prop.name}`);
+  lines.push('');
+  if (readOnlyValue) {
+    lines.push(chalk.yellow(`  ⚠ ${prop.name} is read-only - writes are rejected or ignored`));
+  } else {
+    lines.push(chalk.gray('  Write:'));
+    lines.push(`  PATCH /crm/v3/objects/${objectType}/{recordId}`);
+    lines.push(`  ${JSON.stringify({ properties: { [prop.name]: examplePropertyValue(prop) } })}`);
+    if (prop.type === 'enumeration' && prop.fieldType === 'checkbox') {
+      lines.push(chalk.gray('  Multiple values are separated by semicolons'));
+    }
+  }
+
+  if (verbose) {
+    lines.push('');
+    lines.push(chalk.bold('API Path:'));
+    lines.push(`  /crm/v3/properties/${objectType}/${prop.name}`);
+  }
+
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format property search results as object/property pairs
+ */
+export function formatPropertySearchResults(
+  query: string,
+  results: PropertySearchResult[],
+  total: number,
+  quiet: boolean = false
+): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(`Found ${chalk.bold(total.toString())} properties matching "${query}"${total > results.length ? ` (showing ${results.length})` : ''}`);
+  }
+  lines.push('');
+
+  if (results.length === 0) {
+    lines.push(chalk.yellow('No matching properties.'));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  results.forEach((result) => {
+    const prop = result.property;
+    const badge = prop.hubspotDefined ? chalk.blue('[HS]') : chalk.yellow('[CUSTOM]');
+    const matched = result.matchedOn === 'option' ? `option "${result.matchedOption}"` : result.matchedOn;
+    lines.push(`${badge} ${chalk.white(`${result.objectType}.${prop.name}`)}  ${chalk.gray(`"${prop.label}"`)}`);
+    lines.push(chalk.gray(`      Type: ${prop.type} (${prop.fieldType})${prop.groupName ? `  Group: ${prop.groupName}` : ''}  Matched: ${matched}`));
+  });
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format error catalog entries grouped by status; a title replaces the banner for lookups
+ */
+export function formatErrorCatalog(matches: ErrorCatalogMatch[], title: string | null = null, quiet: boolean = false): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    if (title === null) {
+      lines.push(chalk.bold('\n' + '='.repeat(100)));
+      lines.push(chalk.bold('Common HubSpot API Errors'));
+      lines.push(chalk.bold('='.repeat(100)));
+    } else {
+      lines.push('');
+      lines.push(chalk.bold(title));
+    }
+  }
+
+  if (matches.length === 0) {
+    lines.push('');
+    lines.push(chalk.yellow('No catalog entry matches. Run `hubspot-crm errors` to see all entries.'));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const statuses = [...new Set(matches.map((match) => match.entry.status))];
+  statuses.forEach((status) => {
+    const heading = `HTTP ${status} - ${STATUS_TITLES[status] || 'Error'}`;
+    lines.push(chalk.bold(`\n${status === 400 || status === 409 || status === 429 ? chalk.yellow(heading) : chalk.red(heading)}`));
+    lines.push('');
+
+    matches.filter((match) => match.entry.status === status).forEach(({ entry, matchedOn }, index) => {
+      const key = [entry.category, entry.subCategory].filter(Boolean).join(' / ');
+      lines.push(chalk.gray(`  ${index + 1}. ${chalk.white('Cause:')} ${entry.cause}${key ? chalk.gray(` [${key}]`) : ''}`));
+      lines.push(chalk.gray(`     ${chalk.green('Solution:')} ${entry.solution}`));
+      if (matchedOn.length > 0 && title !== null) {
+        lines.push(chalk.gray(`     Matched on: ${matchedOn.join(', ')}`));
+      }
       lines.push('');
     });
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a snapshot diff, grouped by object
+ */
+export function formatSnapshotDiff(
+  changes: SchemaChange[],
+  labels: { before: string; after: string },
+  quiet: boolean = false
+): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(`Comparing ${chalk.bold(labels.before)} → ${chalk.bold(labels.after)}`);
   }
-  
+  lines.push('');
+
+  if (changes.length === 0) {
+    lines.push(chalk.green('✔ No schema changes'));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const byObject = new Map<string, SchemaChange[]>();
+  changes.forEach((change) => {
+    byObject.set(change.object, [...(byObject.get(change.object) || []), change]);
+  });
+
+  [...byObject.keys()].sort().forEach((object) => {
+    lines.push(chalk.bold(object));
+    byObject.get(object)!.forEach((change) => {
+      const symbol = change.kind.endsWith('-added') ? '+' : change.kind.endsWith('-removed') ? '-' : '~';
+      const text = `  ${symbol} ${change.message}`;
+      lines.push(change.breaking ? chalk.red(`${text} [BREAKING]`) : symbol === '+' ? chalk.green(text) : chalk.yellow(text));
+    });
+    lines.push('');
+  });
+
+  const breaking = changes.filter((c) => c.breaking).length;
+  lines.push(`${changes.length} change(s), ${breaking > 0 ? chalk.red(`${breaking} breaking`) : chalk.green('0 breaking')}`);
+  lines.push('');
+
   return lines.join('\n');
 }
+
+/**
+ * Format lint findings grouped by object, errors first
+ */
+export function formatLintFindings(findings: LintFinding[], objectCount: number, quiet: boolean = false): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(`Linted ${chalk.bold(objectCount.toString())} objects`);
+  }
+  lines.push('');
+
+  if (findings.length === 0) {
+    lines.push(chalk.green('✔ No lint findings'));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const styles = { error: chalk.red, warning: chalk.yellow, note: chalk.cyan };
+  const byObject = new Map<string, LintFinding[]>();
+  findings.forEach((finding) => {
+    byObject.set(finding.objectType, [...(byObject.get(finding.objectType) || []), finding]);
+  });
+
+  [...byObject.keys()].sort().forEach((object) => {
+    lines.push(chalk.bold(object));
+    byObject.get(object)!.forEach((finding) => {
+      lines.push(`  ${styles[finding.severity](finding.severity.padEnd(7))} ${finding.message} ${chalk.gray(`(${finding.ruleId})`)}`);
+    });
+    lines.push('');
+  });
+
+  const count = (severity: string) => findings.filter((f) => f.severity === severity).length;
+  const errors = count('error');
+  lines.push(
+    `${findings.length} finding(s): ${errors > 0 ? chalk.red(`${errors} error(s)`) : chalk.green('0 errors')}, ${count('warning')} warning(s), ${count('note')} note(s)`
+  );
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a side-by-side portal comparison, grouped by object
+ */
+export function formatPortalComparison(
+  comparison: PortalComparison,
+  labels: { left: string; right: string },
+  quiet: boolean = false
+): string {
+  const lines: string[] = [];
+  const { objects, differences } = comparison;
+
+  if (!quiet) {
+    const paired = objects.filter((o) => o.left && o.right);
+    lines.push('');
+    lines.push(`Comparing ${chalk.bold(labels.left)} (left) with ${chalk.bold(labels.right)} (right)`);
+    lines.push('');
+    paired.forEach(({ left, right, matchedBy }) => {
+      const via = matchedBy === 'label' ? chalk.gray(' (matched by label)') : '';
+      lines.push(`  ${left!.name.padEnd(35)} ↔ ${right!.name}${via}`);
+    });
+  }
+  lines.push('');
+
+  if (differences.length === 0) {
+    lines.push(chalk.green('✔ Portals match'));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const byObject = new Map<string, typeof differences>();
+  differences.forEach((difference) => {
+    byObject.set(difference.object, [...(byObject.get(difference.object) || []), difference]);
+  });
+
+  [...byObject.keys()].sort().forEach((object) => {
+    lines.push(chalk.bold(object));
+    byObject.get(object)!.forEach((difference) => {
+      const text = `  ${difference.missingFrom ? '-' : '~'} ${difference.message}`;
+      lines.push(difference.critical ? chalk.red(`${text} [ID MISMATCH]`) : chalk.yellow(text));
+    });
+    lines.push('');
+  });
+
+  const critical = differences.filter((d) => d.critical).length;
+  lines.push(
+    `${differences.length} difference(s), ${critical > 0 ? chalk.red(`${critical} association type ID mismatch(es)`) : chalk.green('0 association type ID mismatches')}`
+  );
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format the association matrix as a grid: rows are the from object, columns the to object
+ */
+export function formatAssociationMatrix(matrix: AssociationMatrix, quiet: boolean = false): string {
+  const lines: string[] = [];
+  const { objects, cells } = matrix;
+  const nameWidth = Math.max(...objects.map((name) => name.length), 4) + 6;
+  const cellWidth = 9;
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(chalk.bold(`Association matrix for ${objects.length} objects`) + chalk.gray(' (rows: from, columns: to)'));
+  }
+  lines.push('');
+  lines.push(' '.repeat(nameWidth) + objects.map((_, j) => `[${j + 1}]`.padEnd(cellWidth)).join('').trimEnd());
+
+  objects.forEach((from, i) => {
+    const row = cells.slice(i * objects.length, (i + 1) * objects.length).map((cell) => {
+      if (!cell.defined) {
+        return chalk.gray('·'.padEnd(cellWidth));
+      }
+      const categories = [cell.hubspotDefined > 0 ? 'H' : '', cell.userDefined > 0 ? 'U' : ''].filter(Boolean).join('+');
+      const text = `${categories}${cell.labeled > 0 ? ` ${cell.labeled}L` : ''}`.padEnd(cellWidth);
+      return cell.userDefined > 0 ? chalk.yellow(text) : chalk.green(text);
+    });
+    lines.push(`${`[${i + 1}] ${from}`.padEnd(nameWidth)}${row.join('')}`.trimEnd());
+  });
+
+  const defined = cells.filter((cell) => cell.defined).length;
+  lines.push('');
+  if (!quiet) {
+    lines.push(chalk.gray('H = HUBSPOT_DEFINED types, U = USER_DEFINED types, nL = n labeled types, · = no association definition'));
+  }
+  lines.push(`${defined} of ${cells.length} ordered object pairs have association definitions`);
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format association paths with the read call and type IDs for every hop
+ */
+export function formatAssociationPaths(
+  from: string,
+  to: string,
+  paths: AssociationPath[],
+  maxDepth: number,
+  quiet: boolean = false
+): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(chalk.bold(`Association paths from ${from} to ${to}`) + chalk.gray(` (up to ${maxDepth} hops)`));
+  }
+  lines.push('');
+
+  if (paths.length === 0) {
+    lines.push(chalk.red(`✖ No association path from ${from} to ${to} within ${maxDepth} hops`));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  paths.forEach((path, index) => {
+    const hops = `${path.hops.length} hop${path.hops.length === 1 ? '' : 's'}`;
+    const marker = path.shortest ? chalk.green(' [shortest]') : '';
+    lines.push(`${index + 1}. ${chalk.bold(path.objects.join(' → '))} ${chalk.gray(`(${hops})`)}${marker}`);
+    path.hops.forEach((hop) => {
+      lines.push(`   ${chalk.cyan(hop.apiCall)}`);
+      const types = hop.types.map(
+        (type) => `${type.associationTypeId} ${type.associationCategory}${type.name ? ` "${type.name}"` : ''}`
+      );
+      lines.push(chalk.gray(`       types: ${types.join(', ')}`));
+    });
+    lines.push('');
+  });
+
+  if (!quiet && paths.some((path) => path.hops.length > 1)) {
+    lines.push(chalk.gray('Each hop returns toObjectId values; use them as {id} in the next hop.'));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a record's existing associations and the checks for adding one more
+ */
+export function formatRecordAssociations(
+  record: { objectType: string; id: string },
+  toObjectType: string,
+  associations: RecordAssociation[],
+  plannedType: AssociationLabelPair | null,
+  checks: RecordAssociationCheck[],
+  target: { objectType: string; id: string } | null,
+  quiet: boolean = false
+): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(chalk.bold(`${record.objectType} ${record.id} → ${toObjectType}`) + chalk.gray(` (${associations.length} associated)`));
+    lines.push(chalk.gray(`GET /crm/v4/objects/${record.objectType}/${record.id}/associations/${toObjectType}`));
+    lines.push('');
+
+    if (associations.length === 0) {
+      lines.push(chalk.gray('  No associated records'));
+    } else {
+      const idWidth = Math.max(8, ...associations.map((a) => String(a.toObjectId).length)) + 2;
+      lines.push(chalk.gray(`  ${'RECORD'.padEnd(idWidth)}TYPES`));
+      associations.forEach((association) => {
+        const highlighted = target !== null && String(association.toObjectId) === target.id;
+        const types = association.associationTypes
+          .map((type) => `${type.typeId} ${type.label ? `"${type.label}"` : '(unlabeled)'}`)
+          .join(', ');
+        const id = String(association.toObjectId).padEnd(idWidth);
+        lines.push(`  ${highlighted ? chalk.cyan(id) : id}${types}`);
+      });
+    }
+    lines.push('');
+  }
+
+  if (!plannedType) {
+    lines.push(chalk.red(`✖ No association defined from ${record.objectType} to ${toObjectType}`));
+    lines.push('');
+    return lines.join('\n');
+  }
+
+  const typeName = plannedType.label ? `"${plannedType.label}"` : 'the default type';
+  const subject = target ? `${target.objectType} ${target.id}` : `another ${toObjectType} record`;
+  lines.push(chalk.bold(`Adding ${subject} as ${typeName} (typeId ${plannedType.typeId}):`));
+  checks.forEach((check) => {
+    lines.push(`  ${check.ok ? chalk.green('✔') : chalk.red('✖')} ${check.message}`);
+  });
+  if (plannedType.maxToObjectIds === undefined) {
+    lines.push(chalk.gray('  Limits could not be read; only duplicates were checked'));
+  }
+  lines.push('');
+  lines.push(checks.every((check) => check.ok) ? chalk.green('✔ Association can be added') : chalk.red('✖ Association would be rejected'));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a request diagnosis: findings, root cause and the corrected request
+ */
+export function formatDiagnosis(request: FailingRequest, diagnosis: Diagnosis, quiet: boolean = false): string {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    lines.push('');
+    lines.push(chalk.bold('Request:') + chalk.gray(` (${diagnosis.endpoint})`));
+    lines.push(`  ${request.method} ${request.path}`);
+    const response = [request.status, request.response?.category, request.response?.message].filter((part) => part !== undefined && part !== '');
+    if (response.length > 0) {
+      lines.push(chalk.gray(`  Response: ${response.join(' ')}`));
+    }
+    lines.push('');
+  }
+
+  if (diagnosis.findings.length > 0) {
+    lines.push(chalk.bold('Findings:'));
+    diagnosis.findings.forEach((finding) => {
+      const symbol = finding.severity === 'error' ? chalk.red('✖') : chalk.yellow('⚠');
+      lines.push(`  ${symbol} ${finding.message}${finding.location !== 'path' ? chalk.gray(` (${finding.location})`) : ''}`);
+    });
+    lines.push('');
+  }
+
+  lines.push(chalk.bold('Root cause:'));
+  lines.push(`  ${diagnosis.rootCause}`);
+  lines.push('');
+
+  const pushRequest = (request: { method: string; path: string; body?: unknown }) => {
+    lines.push(`  ${chalk.cyan(`${request.method} ${request.path}`)}`);
+    if (request.body !== undefined) {
+      JSON.stringify(request.body, null, 2).split('\n').forEach((line) => lines.push(`  ${line}`));
+    }
+    lines.push('');
+  };
+
+  if (diagnosis.correctedRequest) {
+    lines.push(chalk.bold('Corrected request:'));
+    pushRequest(diagnosis.correctedRequest);
+  }
+
+  if (diagnosis.suggestion) {
+    lines.push(chalk.bold('Suggestion:'));
+    lines.push(`  ${diagnosis.suggestion.message}`);
+    pushRequest(diagnosis.suggestion.request);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format manifest check results, one line per expectation
+ */
+export function formatCheckResults(results: CheckResult[], quiet: boolean = false, verbose: boolean = false): string {
+  const lines: string[] = [];
+  const symbols = { pass: chalk.green('✔ PASS '), fail: chalk.red('✖ FAIL '), drift: chalk.yellow('~ DRIFT') };
+
+  lines.push('');
+  (['object', 'property', 'association'] as const).forEach((kind) => {
+    const ofKind = results.filter((r) => r.kind === kind && (!quiet || r.status !== 'pass'));
+    if (ofKind.length === 0) {
+      return;
+    }
+    if (!quiet) {
+      lines.push(chalk.bold(`${kind[0].toUpperCase()}${kind.slice(1)} expectations:`));
+    }
+    ofKind.forEach((result) => {
+      lines.push(`  ${symbols[result.status]} ${result.message}`);
+      if (verbose && result.status === 'drift') {
+        lines.push(chalk.gray(`          expected: ${JSON.stringify(result.expected)}`));
+        lines.push(chalk.gray(`          actual:   ${JSON.stringify(result.actual)}`));
+      }
+    });
+    lines.push('');
+  });
+
+  const count = (status: string) => results.filter((r) => r.status === status).length;
+  const summary = `${count('pass')} passed, ${count('fail')} failed, ${count('drift')} drifted`;
+  lines.push(count('pass') === results.length ? chalk.green(`✔ ${summary}`) : chalk.red(`✖ ${summary}`));
+  lines.push('');
+
+  return lines.join('\n');
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
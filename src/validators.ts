@@ -0,0 +1,238 @@
+/**
+ * JSON Schema and Zod validator generation from portal schemas
+ */
+
+import { HubSpotSchema, HubSpotProperty } from './types';
+import { SchemaSnapshot } from './snapshot';
+import {
+  GeneratedFile,
+  CodegenOptions,
+  selectSchemas,
+  assignTypeNames,
+  isReadOnlyProperty,
+  isMultiValueEnumeration,
+  toPascalCase,
+  formatKey,
+} from './codegen';
+
+/**
+ * create - writable properties, with the schema's requiredProperties required
+ * update - writable properties, none required
+ */
+export type PayloadVariant = 'create' | 'update';
+
+const VARIANTS: PayloadVariant[] = ['create', 'update'];
+
+export type JsonSchema = Record<string, unknown>;
+
+/** HubSpot sends and accepts every property value as a string, e.g. "42.5" or "true" */
+const NUMBER_PATTERN = '^-?\\d+(?:\\.\\d+)?$';
+const BOOLEAN_PATTERN = '^(?:true|false)$';
+/** Date properties take YYYY-MM-DD or a midnight UTC timestamp in milliseconds */
+const DATE_PATTERN = '^(?:\\d{4}-\\d{2}-\\d{2}|\\d+)$';
+/** Datetime properties take an ISO 8601 date-time or a timestamp in milliseconds */
+const DATETIME_PATTERN = '^(?:\\d{4}-\\d{2}-\\d{2}T\\d{2}:\\d{2}(?::\\d{2}(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})|\\d+)$';
+
+/**
+ * Properties allowed in a create or update payload
+ * Read-only properties (e.g. hs_object_id) are rejected by HubSpot on create and update alike.
+ */
+export function writableProperties(schema: HubSpotSchema): HubSpotProperty[] {
+  return [...(schema.properties || [])]
+    .filter((prop) => !isReadOnlyProperty(prop))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Required properties of a payload of the given variant
+ */
+export function variantRequired(schema: HubSpotSchema, variant: PayloadVariant): string[] {
+  if (variant === 'update') {
+    return [];
+  }
+  const known = new Set(writableProperties(schema).map((p) => p.name));
+  return [...(schema.requiredProperties || [])].filter((name) => known.has(name)).sort();
+}
+
+/**
+ * Build the JSON Schema (draft 2020-12) for one object's properties payload
+ */
+export function buildJsonSchema(schema: HubSpotSchema, variant: PayloadVariant): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  writableProperties(schema).forEach((prop) => {
+    properties[prop.name] = propertyJsonSchema(prop);
+  });
+
+  const required = variantRequired(schema, variant);
+  return {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    $id: `hubspot/${schema.name}/${variant}`,
+    title: `${schema.labels.singular} ${variant} properties`,
+    description: `Properties payload for ${variant === 'create' ? 'creating' : 'updating'} ${schema.name} (objectTypeId ${schema.objectTypeId || schema.id})`,
+    type: 'object',
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * JSON Schema for a single property value (null clears a value in HubSpot)
+ * Numbers and booleans may be native values or their string form.
+ */
+export function propertyJsonSchema(prop: HubSpotProperty): JsonSchema {
+  const result: JsonSchema = { title: prop.label };
+  if (prop.description) {
+    result.description = prop.description;
+  }
+
+  switch (prop.type) {
+    case 'number':
+      result.type = ['number', 'string', 'null'];
+      result.pattern = NUMBER_PATTERN;
+      break;
+    case 'bool':
+      result.type = ['boolean', 'string', 'null'];
+      result.pattern = BOOLEAN_PATTERN;
+      break;
+    case 'date':
+      result.type = ['string', 'null'];
+      result.pattern = DATE_PATTERN;
+      break;
+    case 'datetime':
+      result.type = ['string', 'null'];
+      result.pattern = DATETIME_PATTERN;
+      break;
+    case 'enumeration': {
+      const values = enumerationValues(prop);
+      result.type = ['string', 'null'];
+      if (values.length > 0 && isMultiValueEnumeration(prop)) {
+        result.pattern = multiValuePattern(values);
+      } else if (values.length > 0) {
+        result.enum = [...values, null];
+      }
+      break;
+    }
+    default:
+      result.type = ['string', 'null'];
+  }
+
+  if (prop.hasUniqueValue) {
+    result['x-hubspot-unique'] = true;
+  }
+  result['x-hubspot-field-type'] = prop.fieldType;
+
+  return result;
+}
+
+/**
+ * Generate create/update JSON Schema documents for every object
+ */
+export function generateJsonSchemas(snapshot: SchemaSnapshot, options: CodegenOptions = {}): GeneratedFile[] {
+  const files: GeneratedFile[] = [];
+  selectSchemas(snapshot.schemas, options.objects).forEach((schema) => {
+    VARIANTS.forEach((variant) => {
+      files.push({
+        path: `${schema.name}.${variant}.schema.json`,
+        contents: JSON.stringify(buildJsonSchema(schema, variant), null, 2) + '\n',
+      });
+    });
+  });
+  return files;
+}
+
+/**
+ * Generate a Zod module per object with create and update schemas
+ */
+export function generateZodSchemas(snapshot: SchemaSnapshot, options: CodegenOptions = {}): GeneratedFile[] {
+  const schemas = selectSchemas(snapshot.schemas, options.objects);
+  const header = [
+    '/**',
+    ' * Generated by hubspot-crm codegen --format zod',
+    ' * Do not edit by hand - rerun `hubspot-crm codegen` instead.',
+    ' */',
+    '',
+    "import { z } from 'zod';",
+    '',
+    '',
+  ].join('\n');
+
+  const typeNames = assignTypeNames(schemas);
+  const files: GeneratedFile[] = schemas.map((schema) => ({
+    path: `${schema.name}.ts`,
+    contents: header + generateZodModule(schema, typeNames.get(schema.name)!),
+  }));
+
+  files.push({
+    path: 'index.ts',
+    contents: schemas.map((schema) => `export * from './${schema.name}';`).join('\n') + '\n',
+  });
+
+  return files;
+}
+
+function generateZodModule(schema: HubSpotSchema, baseName: string): string {
+  const lines: string[] = [];
+
+  VARIANTS.forEach((variant) => {
+    const required = new Set(variantRequired(schema, variant));
+    const constName = `${baseName}${toPascalCase(variant)}Schema`;
+
+    lines.push(`/** ${schema.labels.singular} ${variant} properties (${schema.name}) */`);
+    lines.push(`export const ${constName} = z.object({`);
+    writableProperties(schema).forEach((prop) => {
+      const base = zodValue(prop);
+      const expr = required.has(prop.name) ? base : `${base}.nullable().optional()`;
+      lines.push(`  ${formatKey(prop.name)}: ${expr},`);
+    });
+    lines.push('}).strict();');
+    lines.push(`export type ${baseName}${toPascalCase(variant)} = z.infer<typeof ${constName}>;`);
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+function zodValue(prop: HubSpotProperty): string {
+  switch (prop.type) {
+    case 'number':
+      return `z.union([z.number(), ${zodPattern(NUMBER_PATTERN)}])`;
+    case 'bool':
+      return `z.union([z.boolean(), ${zodPattern(BOOLEAN_PATTERN)}])`;
+    case 'date':
+      return zodPattern(DATE_PATTERN);
+    case 'datetime':
+      return zodPattern(DATETIME_PATTERN);
+    case 'enumeration': {
+      const values = enumerationValues(prop);
+      if (values.length === 0) {
+        return 'z.string()';
+      }
+      if (isMultiValueEnumeration(prop)) {
+        return zodPattern(multiValuePattern(values));
+      }
+      return `z.enum([${values.map((v) => JSON.stringify(v)).join(', ')}])`;
+    }
+    default:
+      return 'z.string()';
+  }
+}
+
+function zodPattern(pattern: string): string {
+  return `z.string().regex(new RegExp(${JSON.stringify(pattern)}))`;
+}
+
+function enumerationValues(prop: HubSpotProperty): string[] {
+  if (prop.externalOptions) {
+    return [];
+  }
+  return (prop.options || []).map((o) => o.value);
+}
+
+/**
+ * Pattern for semicolon-separated multi-select values
+ */
+function multiValuePattern(values: string[]): string {
+  const alternatives = values.map((v) => v.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  return `^(?:${alternatives})(?:;(?:${alternatives}))*$`;
+}
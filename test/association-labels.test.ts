@@ -0,0 +1,50 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pairAssociationLabels } from '../src/association-labels';
+import { AssociationLabel } from '../src/types';
+
+const label = (typeId: number, name: string | null, category = name ? 'USER_DEFINED' : 'HUBSPOT_DEFINED'): AssociationLabel => ({
+  category,
+  typeId,
+  label: name,
+});
+
+const summary = (forward: AssociationLabel[], reverse: AssociationLabel[]) =>
+  pairAssociationLabels(forward, reverse).map((p) => [p.typeId, p.label, p.inverseTypeId, p.inverseLabel]);
+
+test('pairs the unlabeled default types', () => {
+  assert.deepEqual(summary([label(279, null)], [label(280, null)]), [[279, null, 280, null]]);
+});
+
+test('pairs symmetric labels by name', () => {
+  assert.deepEqual(summary([label(12, 'Partner')], [label(40, 'partner')]), [[12, 'Partner', 40, 'partner']]);
+});
+
+test('pairs differently named labels by adjacent type ID', () => {
+  assert.deepEqual(summary([label(10, 'Manager'), label(20, 'Mentor')], [label(11, 'Employee'), label(21, 'Mentee')]), [
+    [10, 'Manager', 11, 'Employee'],
+    [20, 'Mentor', 21, 'Mentee'],
+  ]);
+});
+
+test('a same-label match takes precedence over an adjacent ID', () => {
+  assert.deepEqual(summary([label(30, 'Owner'), label(32, 'Partner')], [label(29, 'Owned by'), label(31, 'Partner')]), [
+    [30, 'Owner', 29, 'Owned by'],
+    [32, 'Partner', 31, 'Partner'],
+  ]);
+});
+
+test('only pairs types of the same category', () => {
+  assert.deepEqual(summary([label(1, 'Primary', 'HUBSPOT_DEFINED')], [label(2, 'Primary', 'USER_DEFINED')]), [
+    [1, 'Primary', null, null],
+    [null, null, 2, 'Primary'],
+  ]);
+});
+
+test('keeps types defined in one direction only', () => {
+  assert.deepEqual(summary([label(279, null), label(50, 'Billing')], [label(280, null)]), [
+    [50, 'Billing', null, null],
+    [279, null, 280, null],
+  ]);
+  assert.deepEqual(summary([], [label(60, 'Referred by')]), [[null, null, 60, 'Referred by']]);
+});
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AssociationEdges, findAssociationPaths } from '../src/association-path';
+import { AssociationDefinition } from '../src/types';
+
+const type = (fromObjectType: string, toObjectType: string, associationTypeId: number): AssociationDefinition[] => [
+  { fromObjectType, toObjectType, associationCategory: 'HUBSPOT_DEFINED', associationTypeId },
+];
+
+/**
+ * Edges in both directions for each undirected pair
+ */
+function edgesFor(pairs: Array<[string, string]>): AssociationEdges {
+  const edges: AssociationEdges = new Map();
+  pairs.forEach(([a, b], i) => {
+    [[a, b], [b, a]].forEach(([from, to]) => {
+      if (!edges.has(from)) {
+        edges.set(from, new Map());
+      }
+      edges.get(from)!.set(to, type(from, to, i + 1));
+    });
+  });
+  return edges;
+}
+
+const edges = edgesFor([
+  ['contacts', 'companies'],
+  ['contacts', 'deals'],
+  ['companies', 'deals'],
+  ['deals', 'p1_listings'],
+  ['companies', 'tickets'],
+  ['tickets', 'p1_listings'],
+]);
+
+test('lists paths fewest hops first, then alphabetically', () => {
+  const paths = findAssociationPaths(edges, 'contacts', 'p1_listings');
+  assert.deepEqual(
+    paths.map((p) => p.objects.join(' > ')),
+    [
+      'contacts > deals > p1_listings',
+      'contacts > companies > deals > p1_listings',
+      'contacts > companies > tickets > p1_listings',
+    ]
+  );
+  assert.deepEqual(paths.map((p) => p.shortest), [true, false, false]);
+});
+
+test('describes each hop with its types and read call', () => {
+  const [path] = findAssociationPaths(edges, 'contacts', 'p1_listings');
+  assert.equal(path.hops.length, 2);
+  assert.deepEqual(path.hops[0].types, edges.get('contacts')!.get('deals'));
+  assert.equal(path.hops[1].apiCall, 'GET /crm/v4/objects/deals/{id}/associations/p1_listings');
+});
+
+test('respects maxDepth and limit', () => {
+  assert.equal(findAssociationPaths(edges, 'contacts', 'p1_listings', { maxDepth: 2 }).length, 1);
+  assert.equal(findAssociationPaths(edges, 'contacts', 'p1_listings', { limit: 2 }).length, 2);
+  assert.equal(findAssociationPaths(edges, 'contacts', 'p1_listings', { maxDepth: 1 }).length, 0);
+});
+
+test('returns no paths between an object and itself or unconnected objects', () => {
+  assert.deepEqual(findAssociationPaths(edges, 'contacts', 'contacts'), []);
+  assert.deepEqual(findAssociationPaths(edges, 'contacts', 'p1_unlinked'), []);
+});
+
+test('stops once enough short paths are found in a dense graph', () => {
+  const objects = Array.from({ length: 40 }, (_, i) => `p1_object_${String(i).padStart(2, '0')}`);
+  const pairs: Array<[string, string]> = [];
+  objects.forEach((a, i) => objects.slice(i + 1).forEach((b) => pairs.push([a, b])));
+  const dense = edgesFor(pairs);
+
+  const started = Date.now();
+  const paths = findAssociationPaths(dense, objects[0], objects[1], { maxDepth: 6, limit: 3 });
+  assert.ok(Date.now() - started < 2000);
+  assert.deepEqual(
+    paths.map((p) => p.objects.length),
+    [2, 3, 3]
+  );
+});
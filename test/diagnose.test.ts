@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { diagnoseRequest, DiagnoseState, parseFailingRequest } from '../src/diagnose';
+import { associationKey } from '../src/plan';
+import { HubSpotProperty } from '../src/types';
+
+const property = (name: string): HubSpotProperty => ({ name, label: name, type: 'string', fieldType: 'text', groupName: 'info' });
+
+function state(): DiagnoseState {
+  return {
+    objects: new Map([
+      ['contacts', { internalName: 'contacts', properties: [property('email'), property('firstname')] }],
+      ['listings', { internalName: 'p42_listings' }],
+      ['p42_listings', { internalName: 'p42_listings' }],
+    ]),
+    associations: new Map([
+      [
+        associationKey('contacts', 'p42_listings'),
+        [
+          { fromObjectType: 'contacts', toObjectType: 'p42_listings', associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 510 },
+          { fromObjectType: 'contacts', toObjectType: 'p42_listings', associationCategory: 'USER_DEFINED', associationTypeId: 512, name: 'Owner' },
+        ],
+      ],
+      [
+        associationKey('p42_listings', 'contacts'),
+        [
+          { fromObjectType: 'p42_listings', toObjectType: 'contacts', associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 511 },
+          { fromObjectType: 'p42_listings', toObjectType: 'contacts', associationCategory: 'USER_DEFINED', associationTypeId: 513, name: 'Owned by' },
+        ],
+      ],
+    ]),
+  };
+}
+
+test('reports the first error as the root cause and corrects every derivable fix', () => {
+  const diagnosis = diagnoseRequest(
+    {
+      method: 'POST',
+      path: '/crm/v4/associations/contacts/listings/batch/create',
+      body: { inputs: [{ from: { id: '101' }, to: { id: '9001' }, types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: 513 }] }] },
+      status: 400,
+    },
+    state()
+  );
+
+  assert.equal(diagnosis.endpoint, 'association-batch');
+  assert.deepEqual(diagnosis.findings.map((f) => f.check), ['object', 'association-type', 'category']);
+  assert.equal(diagnosis.rootCause, diagnosis.findings[0].message);
+  assert.equal(diagnosis.correctedRequest?.path, '/crm/v4/associations/contacts/p42_listings/batch/create');
+  assert.deepEqual((diagnosis.correctedRequest?.body as any).inputs[0].types, [{ associationCategory: 'USER_DEFINED', associationTypeId: 512 }]);
+  assert.equal(diagnosis.suggestion, null);
+});
+
+test('maps a property label to its internal name', () => {
+  const diagnosis = diagnoseRequest({ method: 'PATCH', path: '/crm/v3/objects/contacts/101', body: { properties: { 'First Name': 'Ada', phone: '1' } } }, state());
+
+  assert.deepEqual(diagnosis.findings.map((f) => f.message), [
+    'Property "First Name" does not exist on contacts; did you mean "firstname"?',
+    'Property "phone" does not exist on contacts',
+  ]);
+  assert.deepEqual(diagnosis.correctedRequest?.body, { properties: { firstname: 'Ada', phone: '1' } });
+});
+
+test('flags non-numeric record IDs', () => {
+  const diagnosis = diagnoseRequest({ method: 'GET', path: '/crm/v3/objects/contacts/someone@example.com' }, state());
+  assert.deepEqual(diagnosis.findings.map((f) => f.check), ['record-id']);
+});
+
+test('offers the batch call for a valid single-record PUT that failed with a 5xx, apart from the root cause', () => {
+  const diagnosis = diagnoseRequest(
+    {
+      method: 'PUT',
+      path: '/crm/v4/objects/contacts/101/associations/p42_listings/9001',
+      body: [{ associationCategory: 'USER_DEFINED', associationTypeId: 512 }],
+      status: 500,
+    },
+    state()
+  );
+
+  assert.deepEqual(diagnosis.findings, []);
+  assert.equal(diagnosis.correctedRequest, null);
+  assert.doesNotMatch(diagnosis.rootCause, /batch/);
+  assert.equal(diagnosis.suggestion?.request.method, 'POST');
+  assert.equal(diagnosis.suggestion?.request.path, '/crm/v4/associations/contacts/p42_listings/batch/create');
+  assert.deepEqual((diagnosis.suggestion?.request.body as any).inputs, [
+    { from: { id: '101' }, to: { id: '9001' }, types: [{ associationCategory: 'USER_DEFINED', associationTypeId: 512 }] },
+  ]);
+});
+
+test('parses .http text', () => {
+  const request = parseFailingRequest('PUT /crm/v3/objects/contacts/101\nContent-Type: application/json\n\n{"properties":{}}');
+  assert.equal(request.method, 'PUT');
+  assert.equal(request.path, '/crm/v3/objects/contacts/101');
+  assert.deepEqual(request.body, { properties: {} });
+});
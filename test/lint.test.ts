@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintSchemas, toSarif } from '../src/lint';
+import { HubSpotProperty, HubSpotSchema } from '../src/types';
+
+const property = (name: string, label: string, hubspotDefined: boolean): HubSpotProperty => ({
+  name,
+  label,
+  type: 'string',
+  fieldType: 'text',
+  groupName: 'info',
+  description: `${label} of the record`,
+  hubspotDefined,
+});
+
+const contacts = (properties: HubSpotProperty[]): HubSpotSchema => ({
+  id: '0-1',
+  objectTypeId: '0-1',
+  name: 'contacts',
+  fullyQualifiedName: 'contacts',
+  labels: { singular: 'Contact', plural: 'Contacts' },
+  requiredProperties: [],
+  searchableProperties: [],
+  archived: false,
+  restorable: false,
+  metaType: 'HUBSPOT',
+  properties,
+});
+
+const duplicates = (schema: HubSpotSchema) => lintSchemas([schema]).filter((f) => f.ruleId === 'duplicate-property-label');
+
+test('duplicate-property-label ignores labels HubSpot itself duplicates', () => {
+  assert.deepEqual(duplicates(contacts([property('hs_lead_status', 'Lead Status', true), property('hs_lead_status_v2', 'Lead Status', true)])), []);
+});
+
+test('duplicate-property-label reports a custom property reusing a label', () => {
+  const findings = duplicates(contacts([property('phone', 'Phone Number', true), property('phone_number', 'phone number', false)]));
+  assert.equal(findings.length, 1);
+  assert.equal(findings[0].severity, 'error');
+  assert.match(findings[0].message, /phone, phone_number/);
+});
+
+test('toSarif points results at the linted file when given', () => {
+  const findings = duplicates(contacts([property('phone', 'Phone Number', true), property('phone_number', 'Phone Number', false)]));
+  const located = (toSarif(findings, { rules: {} }, 'snapshots/prod.json') as any).runs[0].results[0].locations[0];
+  assert.deepEqual(located.physicalLocation.artifactLocation, { uri: 'snapshots/prod.json' });
+  assert.equal(located.logicalLocations[0].fullyQualifiedName, 'contacts.phone');
+
+  const logical = (toSarif(findings) as any).runs[0].results[0].locations[0];
+  assert.equal(logical.physicalLocation, undefined);
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { associationKey, buildPlan, PortalState } from '../src/plan';
+import { HubSpotProperty } from '../src/types';
+
+const tier: HubSpotProperty = {
+  name: 'tier',
+  label: 'Tier',
+  type: 'enumeration',
+  fieldType: 'select',
+  groupName: 'contactinformation',
+  options: [
+    { value: 'gold', label: 'Gold', displayOrder: 0, hidden: false },
+    { value: 'legacy', label: 'Legacy', displayOrder: 1, hidden: true },
+  ],
+};
+
+function state(): PortalState {
+  return {
+    objects: new Map([
+      ['contacts', { internalName: 'contacts', objectTypeId: '0-1', properties: [tier] }],
+      ['Listing', { internalName: null, properties: [] }],
+    ]),
+    associations: new Map([[associationKey('contacts', 'Listing'), null]]),
+  };
+}
+
+test('label steps for objects the plan creates use the objectTypeId placeholder', () => {
+  const plan = buildPlan(
+    {
+      objects: [{ name: 'Listing', properties: [{ name: 'address', type: 'string' }] }],
+      associations: [{ from: 'contacts', to: 'Listing', label: 'Owner' }],
+    },
+    state()
+  );
+
+  const paths = plan.steps.map((step) => `${step.method} ${step.path}`);
+  assert.deepEqual(paths, [
+    'POST /crm/v3/schemas',
+    'POST /crm/v3/schemas/0-1/associations',
+    'POST /crm/v4/associations/0-1/{{objectTypeId:listing}}/labels',
+  ]);
+  assert.ok(plan.warnings.some((warning) => warning.includes('{{objectTypeId:<name>}}')));
+});
+
+test('option updates keep existing options the manifest does not list', () => {
+  const plan = buildPlan(
+    { objects: [{ name: 'contacts', properties: [{ name: 'tier', options: [{ value: 'gold' }, { value: 'silver', label: 'Silver' }] }] }], associations: [] },
+    state()
+  );
+
+  assert.equal(plan.steps.length, 1);
+  assert.deepEqual(plan.steps[0].body.options, [
+    { label: 'Gold', value: 'gold', displayOrder: 0, hidden: false },
+    { label: 'Silver', value: 'silver', displayOrder: 1, hidden: false },
+    { label: 'Legacy', value: 'legacy', displayOrder: 2, hidden: true },
+  ]);
+  assert.ok(plan.warnings.some((warning) => warning.startsWith('contacts.tier: keeping options not in the manifest (legacy)')));
+});
+
+test('no option update when every manifest option exists', () => {
+  const plan = buildPlan({ objects: [{ name: 'contacts', properties: [{ name: 'tier', options: [{ value: 'gold' }] }] }], associations: [] }, state());
+  assert.deepEqual(plan.steps, []);
+});
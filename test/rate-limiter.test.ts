@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TokenBucket } from '../src/rate-limiter';
+
+test('TokenBucket rejects a rate of 0', () => {
+  assert.throws(() => new TokenBucket(0), /greater than 0/);
+});
+
+test('TokenBucket hands out the initial burst without waiting', async () => {
+  const bucket = new TokenBucket(100, 3);
+  const started = Date.now();
+  await bucket.take();
+  await bucket.take();
+  await bucket.take();
+  assert.ok(Date.now() - started < 50);
+});
+
+test('TokenBucket waits for a refill once the burst is spent', async () => {
+  const bucket = new TokenBucket(20, 1);
+  await bucket.take();
+  const started = Date.now();
+  await bucket.take();
+  assert.ok(Date.now() - started >= 40);
+});
+
+test('TokenBucket holds at least one token below 1 request per second', async () => {
+  const bucket = new TokenBucket(0.5);
+  const started = Date.now();
+  await bucket.take();
+  assert.ok(Date.now() - started < 50);
+});
+
+test('setRate keeps a usable capacity when lowering the rate below 1', async () => {
+  const bucket = new TokenBucket(10);
+  bucket.setRate(0.25);
+  const started = Date.now();
+  await bucket.take();
+  assert.ok(Date.now() - started < 50);
+});
+
+test('pause delays the next token', async () => {
+  const bucket = new TokenBucket(100);
+  bucket.pause(60);
+  const started = Date.now();
+  await bucket.take();
+  assert.ok(Date.now() - started >= 50);
+});
@@ -0,0 +1,131 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectSchemas, diffSnapshots, SchemaSnapshot } from '../src/snapshot';
+import { AssociationDefinition, HubSpotProperty, HubSpotSchema } from '../src/types';
+import { HubSpotApiError } from '../src/errors';
+import { HubSpotClient } from '../src/hubspot-client';
+
+const property = (name: string, type = 'string', extra: Partial<HubSpotProperty> = {}): HubSpotProperty => ({
+  name,
+  label: name,
+  type,
+  fieldType: 'text',
+  groupName: 'info',
+  ...extra,
+});
+
+const schema = (name: string, objectTypeId: string, properties: HubSpotProperty[], extra: Partial<HubSpotSchema> = {}): HubSpotSchema => ({
+  id: objectTypeId,
+  objectTypeId,
+  name,
+  fullyQualifiedName: name,
+  labels: { singular: name, plural: `${name}s` },
+  requiredProperties: [],
+  searchableProperties: [],
+  archived: false,
+  restorable: false,
+  metaType: name.startsWith('p') ? 'PORTAL_SPECIFIC' : 'HUBSPOT',
+  properties,
+  ...extra,
+});
+
+const association = (fromObjectType: string, toObjectType: string, associationTypeId: number, name?: string): AssociationDefinition => ({
+  fromObjectType,
+  toObjectType,
+  associationCategory: name ? 'USER_DEFINED' : 'HUBSPOT_DEFINED',
+  associationTypeId,
+  ...(name ? { name } : {}),
+});
+
+const snapshot = (schemas: HubSpotSchema[], types: AssociationDefinition[] = []): SchemaSnapshot => ({
+  snapshotVersion: 1,
+  createdAt: '2024-01-01T00:00:00.000Z',
+  source: { profile: null, portalId: '42' },
+  schemas,
+  includesAssociationTypes: true,
+  associationTypes: types.length > 0 ? [{ fromObjectType: types[0].fromObjectType, toObjectType: types[0].toObjectType, types }] : [],
+});
+
+const kinds = (before: SchemaSnapshot, after: SchemaSnapshot) => diffSnapshots(before, after).map((c) => `${c.kind}${c.breaking ? '!' : ''}`);
+
+test('identical snapshots have no changes', () => {
+  const model = snapshot([schema('contacts', '0-1', [property('email')])]);
+  assert.deepEqual(diffSnapshots(model, model), []);
+});
+
+test('reports added and removed objects, removals as breaking', () => {
+  const contacts = schema('contacts', '0-1', []);
+  assert.deepEqual(kinds(snapshot([contacts]), snapshot([contacts, schema('p42_listings', '2-100', [])])), ['object-added']);
+  assert.deepEqual(kinds(snapshot([contacts, schema('p42_listings', '2-100', [])]), snapshot([contacts])), ['object-removed!']);
+});
+
+test('matches renamed objects by objectTypeId', () => {
+  const labels = { singular: 'Listing', plural: 'Listings' };
+  const changes = diffSnapshots(snapshot([schema('p42_listings', '2-100', [], { labels })]), snapshot([schema('p42_homes', '2-100', [], { labels })]));
+  assert.deepEqual(
+    changes.map((c) => [c.kind, c.before, c.after]),
+    [['object-renamed', 'p42_listings', 'p42_homes']]
+  );
+});
+
+test('reports property changes', () => {
+  const before = snapshot([schema('contacts', '0-1', [property('email'), property('score', 'number'), property('fax')])]);
+  const after = snapshot([
+    schema('contacts', '0-1', [property('email'), property('score', 'string'), property('mobile')], { requiredProperties: ['email'] }),
+  ]);
+  assert.deepEqual(kinds(before, after).sort(), ['property-added', 'property-removed!', 'property-type-changed!', 'required-added!']);
+});
+
+test('reports enumeration option changes', () => {
+  const stage = (values: string[]) =>
+    property('stage', 'enumeration', { options: values.map((value, displayOrder) => ({ value, label: value, displayOrder, hidden: false })) });
+  const changes = diffSnapshots(snapshot([schema('deals', '0-3', [stage(['open', 'won'])])]), snapshot([schema('deals', '0-3', [stage(['open', 'lost'])])]));
+  assert.deepEqual(changes.map((c) => [c.kind, c.breaking]).sort(), [
+    ['option-added', false],
+    ['option-removed', true],
+  ]);
+});
+
+test('reports association type changes', () => {
+  const schemas = [schema('contacts', '0-1', []), schema('p42_listings', '2-100', [])];
+  const before = snapshot(schemas, [association('contacts', 'p42_listings', 510), association('contacts', 'p42_listings', 512, 'Owner')]);
+  const after = snapshot(schemas, [association('contacts', 'p42_listings', 510), association('contacts', 'p42_listings', 514, 'Buyer')]);
+  assert.deepEqual(kinds(before, after).sort(), ['association-type-added', 'association-type-removed!']);
+});
+
+test('skips association types unless both snapshots include them', () => {
+  const schemas = [schema('contacts', '0-1', []), schema('p42_listings', '2-100', [])];
+  const before = { ...snapshot(schemas), includesAssociationTypes: false };
+  const after = snapshot(schemas, [association('contacts', 'p42_listings', 510)]);
+  assert.deepEqual(diffSnapshots(before, after), []);
+});
+
+test('collectSchemas adds the standard objects /crm/v3/schemas leaves out', async () => {
+  const requested: string[] = [];
+  const client = {
+    getSchemas: async () => [schema('p42_listings', '2-100', [])],
+    getSchema: async (objectType: string) => {
+      requested.push(objectType);
+      if (objectType === 'contacts') {
+        return schema('contacts', '0-1', []);
+      }
+      throw new HubSpotApiError('Not found', 404);
+    },
+  } as unknown as HubSpotClient;
+
+  const schemas = await collectSchemas(client);
+  assert.deepEqual(schemas.map((s) => s.name), ['p42_listings', 'contacts']);
+  assert.ok(requested.includes('deals'));
+  assert.ok(!requested.includes('p42_listings'));
+});
+
+test('collectSchemas fails on server errors', async () => {
+  const client = {
+    getSchemas: async () => [],
+    getSchema: async () => {
+      throw new HubSpotApiError('Internal error', 500);
+    },
+  } as unknown as HubSpotClient;
+
+  await assert.rejects(collectSchemas(client), HubSpotApiError);
+});
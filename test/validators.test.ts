@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildJsonSchema, propertyJsonSchema, writableProperties } from '../src/validators';
+import { HubSpotProperty, HubSpotSchema } from '../src/types';
+
+const property = (name: string, type: string, extra: Partial<HubSpotProperty> = {}): HubSpotProperty => ({
+  name,
+  label: name,
+  type,
+  fieldType: 'text',
+  groupName: 'info',
+  ...extra,
+});
+
+const schema: HubSpotSchema = {
+  id: '2-100',
+  objectTypeId: '2-100',
+  name: 'p1_listings',
+  fullyQualifiedName: 'p1_listings',
+  labels: { singular: 'Listing', plural: 'Listings' },
+  requiredProperties: ['name', 'hs_object_id'],
+  searchableProperties: ['name'],
+  archived: false,
+  restorable: false,
+  metaType: 'PORTAL_SPECIFIC',
+  properties: [
+    property('name', 'string'),
+    property('price', 'number'),
+    property('hs_object_id', 'number', { modificationMetadata: { readOnlyValue: true, readOnlyDefinition: true, archivable: false } }),
+  ],
+};
+
+test('create and update payloads leave out read-only properties', () => {
+  assert.deepEqual(writableProperties(schema).map((p) => p.name), ['name', 'price']);
+  assert.deepEqual(Object.keys(buildJsonSchema(schema, 'update').properties as object), ['name', 'price']);
+
+  const create = buildJsonSchema(schema, 'create');
+  assert.deepEqual(Object.keys(create.properties as object), ['name', 'price']);
+  assert.deepEqual(create.required, ['name']);
+  assert.equal(create.additionalProperties, false);
+});
+
+test('number and bool properties accept their string form', () => {
+  const number = propertyJsonSchema(property('price', 'number'));
+  assert.deepEqual(number.type, ['number', 'string', 'null']);
+  const numberPattern = new RegExp(number.pattern as string);
+  assert.ok(numberPattern.test('42.5'));
+  assert.ok(numberPattern.test('-3'));
+  assert.ok(!numberPattern.test('abc'));
+
+  const bool = propertyJsonSchema(property('active', 'bool'));
+  assert.deepEqual(bool.type, ['boolean', 'string', 'null']);
+  const boolPattern = new RegExp(bool.pattern as string);
+  assert.ok(boolPattern.test('true'));
+  assert.ok(!boolPattern.test('yes'));
+});
+
+test('date properties accept a date or a millisecond timestamp', () => {
+  const pattern = new RegExp(propertyJsonSchema(property('renewal_date', 'date')).pattern as string);
+  assert.ok(pattern.test('2024-05-01'));
+  assert.ok(pattern.test('1714521600000'));
+  assert.ok(!pattern.test('May 1st'));
+});
+
+test('datetime properties accept an ISO date-time or a millisecond timestamp', () => {
+  const schema = propertyJsonSchema(property('closed_at', 'datetime'));
+  assert.equal(schema.format, undefined);
+  const pattern = new RegExp(schema.pattern as string);
+  assert.ok(pattern.test('2024-05-01T12:30:00Z'));
+  assert.ok(pattern.test('2024-05-01T12:30:00.123+02:00'));
+  assert.ok(pattern.test('1714566600000'));
+  assert.ok(!pattern.test('2024-05-01'));
+  assert.ok(!pattern.test('yesterday'));
+});